@@ -0,0 +1,210 @@
+import React, { CSSProperties, ReactNode, RefObject } from "react";
+import VideoBox from "./VideoBox";
+import VideoPopupPlayer from "./video-player";
+import TranscriptPanel from "./TranscriptPanel";
+import DebugOverlay from "./DebugOverlay";
+import ErrorNotice from "./ErrorNotice";
+import IdleMedia from "./IdleMedia";
+import cn from "@/app/utils/TailwindMergeAndClsx";
+import { RecoveryAction } from "@/app/utils/errors";
+import { WidgetTheme } from "@/app/utils/theme";
+import { AvatarSession } from "@/app/utils/useAvatarSession";
+import IconSparkleLoader from "@/media/IconSparkleLoader";
+
+interface Props {
+  session: AvatarSession;
+  videoRef: RefObject<HTMLVideoElement>;
+  audioRef: RefObject<HTMLAudioElement>;
+  /** Video the agent is playing; the avatar floats in the corner meanwhile. */
+  videoName: string | null;
+  onVideoClose: () => void;
+  /** From `useDraggableAvatar`, for the floating avatar. */
+  onAvatarMouseDown: (e: React.MouseEvent<HTMLDivElement>) => void;
+  floatingStyle: CSSProperties;
+  showDottedFace: boolean;
+  debug?: boolean;
+  embedded: boolean;
+  theme: WidgetTheme;
+  /** Shown in place of the start button while the session is live. */
+  controls?: ReactNode;
+  onErrorAction: (action: RecoveryAction) => void;
+  hiddenActions?: RecoveryAction[];
+  /** Rendered below the controls, e.g. the text chat form. */
+  children?: ReactNode;
+}
+
+/**
+ * The layout every interaction mode shares: the avatar video, the idle media and
+ * start button, the transcript, error notices and the debug overlay. Modes only
+ * bring their own controls.
+ */
+const AvatarStage = ({
+  session,
+  videoRef,
+  audioRef,
+  videoName,
+  onVideoClose,
+  onAvatarMouseDown,
+  floatingStyle,
+  showDottedFace,
+  debug,
+  embedded,
+  theme,
+  controls,
+  onErrorAction,
+  hiddenActions,
+  children,
+}: Props) => {
+  const { state, error, transcript, start } = session;
+  const isLoading = state === "connecting";
+  const isAvatarVisible = state === "live" || state === "reconnecting";
+  const isReconnecting = state === "reconnecting";
+  const isFloating = isAvatarVisible && Boolean(videoName);
+
+  return (
+    <>
+      <style>
+        {`
+          .avatar-slide-in {
+            animation: avatarSlideIn 0.5s ease-out forwards;
+          }
+          .avatar-slide-out {
+            animation: avatarSlideOut 0.5s ease-in forwards;
+          }
+          @keyframes avatarSlideIn {
+            from {
+              transform: translateY(100%) scale(0.7);
+              opacity: 0.8;
+            }
+            to {
+              transform: translateY(0) scale(1);
+              opacity: 1;
+            }
+          }
+          @keyframes avatarSlideOut {
+            from {
+              transform: translateY(0) scale(1);
+              opacity: 1;
+            }
+            to {
+              transform: translateY(100%) scale(0.7);
+              opacity: 0.8;
+            }
+          }
+          .animate-hide {
+            animation: hide 0.3s ease-in forwards;
+          }
+          @keyframes hide {
+            from {
+              opacity: 1;
+              transform: scale(1);
+            }
+            to {
+              opacity: 0;
+              transform: scale(0.8);
+            }
+          }
+        `}
+      </style>
+
+      {/* Video Popup Player */}
+      <VideoPopupPlayer videoName={videoName} onClose={onVideoClose} />
+
+      {debug && (
+        <DebugOverlay
+          state={state}
+          startupMarks={session.startupMarks}
+          turns={session.turns}
+          getAudioStats={session.getAudioStats}
+        />
+      )}
+
+      {/* Main Content */}
+      <div
+        className={cn(
+          "relative flex flex-col items-center justify-center overflow-hidden",
+          embedded ? "h-full" : "h-screen"
+        )}
+      >
+        {/* Avatar Wrapper - Centered or Draggable Bottom-Right */}
+        <div
+          onMouseDown={onAvatarMouseDown}
+          className={cn(
+            "transition-all duration-500 z-50 flex justify-center items-center",
+            showDottedFace ? "h-0 overflow-hidden" : "h-auto",
+            isFloating
+              ? "fixed bg-black/20 rounded-avatar overflow-hidden shadow-2xl avatar-slide-in cursor-move"
+              : isAvatarVisible
+              ? "w-full max-w-[800px] relative"
+              : "hidden"
+          )}
+          style={isFloating ? floatingStyle : {}}
+        >
+          <div
+            className={cn(
+              "transition-transform duration-700 ease-in-out",
+              isFloating ? "scale-75 origin-center" : "scale-100"
+            )}
+          >
+            <VideoBox video={videoRef} audio={audioRef} compact={embedded} />
+            {isReconnecting && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/60 rounded-avatar">
+                <span className="flex items-center gap-2 font-brand-mono text-white">
+                  <IconSparkleLoader className="h-[20px] animate-loader" />
+                  Reconnecting…
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Interaction Buttons and GIF */}
+        <div
+          className={cn(
+            "flex flex-col items-center justify-center z-50 w-full max-w-[800px]",
+            isAvatarVisible ? "animate-hide" : "opacity-100"
+          )}
+        >
+          {!isAvatarVisible ? (
+            <div className="flex flex-col items-center justify-center space-y-8">
+              {/* GIF Animation - Shown when interaction is not started */}
+              <IdleMedia media={theme.idleMedia} size={embedded ? 160 : 350} />
+              {/* Gradient Button */}
+              <button
+                onClick={start}
+                disabled={isLoading}
+                className={cn(
+                  "gradient-button inline-flex text-white px-6 py-3 rounded-[100px] transition-all duration-300 hover:rounded-sm hover:shadow-lg hover:scale-105 items-center justify-center",
+                  isLoading ? "opacity-50 cursor-not-allowed" : ""
+                )}
+              >
+                {isLoading ? (
+                  <IconSparkleLoader className="h-[20px] animate-loader" />
+                ) : (
+                  <span className="font-brand-mono font-bold">{theme.labels.start}</span>
+                )}
+              </button>
+            </div>
+          ) : (
+            controls
+          )}
+        </div>
+
+        {isAvatarVisible && children}
+
+        {/* Live Transcript */}
+        <TranscriptPanel turns={transcript} className="z-50 mt-6" />
+
+        {/* Error Message */}
+        <ErrorNotice
+          error={error}
+          onAction={onErrorAction}
+          hiddenActions={hiddenActions}
+          className="mt-4 absolute bottom-4 z-50"
+        />
+      </div>
+    </>
+  );
+};
+
+export default AvatarStage;
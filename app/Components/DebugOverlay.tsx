@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from "react";
+import cn from "@/app/utils/TailwindMergeAndClsx";
+import { AudioSchedulerStats } from "@/app/utils/audioScheduler";
+import { StartupMark } from "@/app/utils/startupTimer";
+import { timeToEvent, TurnRecord } from "@/app/utils/turnTimeline";
+import { SessionState } from "@/app/utils/useAvatarSession";
+
+interface Props {
+  state: SessionState;
+  startupMarks: StartupMark[];
+  turns: TurnRecord[];
+  getAudioStats: () => AudioSchedulerStats;
+}
+
+const STATS_POLL_MS = 500;
+
+const STATE_COLORS: Record<SessionState, string> = {
+  idle: "text-gray-400",
+  connecting: "text-blue-400",
+  live: "text-green-400",
+  reconnecting: "text-yellow-400",
+  ending: "text-gray-400",
+  ended: "text-gray-400",
+};
+
+const formatMs = (ms?: number) => (ms === undefined ? "–" : `${ms}ms`);
+
+/**
+ * Pairs each tool call's start and end into one duration.
+ */
+const toolDurations = (turn: TurnRecord) =>
+  turn.events
+    .filter((event) => event.type === "tool_call_start")
+    .map((start) => {
+      const end = turn.events.find((e) => e.type === "tool_call_end" && e.detail === start.detail && e.at >= start.at);
+      return { name: start.detail ?? "tool", ms: end ? end.at - start.at : undefined };
+    });
+
+/**
+ * Connection status, startup phases and per-turn latency, shown with `?debug=1`.
+ */
+const DebugOverlay = ({ state, startupMarks, turns, getAudioStats }: Props) => {
+  const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
+  const [audioStats, setAudioStats] = useState<AudioSchedulerStats>(getAudioStats);
+
+  useEffect(() => {
+    if (isCollapsed) return;
+    const interval = setInterval(() => setAudioStats(getAudioStats()), STATS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [isCollapsed, getAudioStats]);
+
+  return (
+    <div className="fixed top-4 left-4 z-[100] w-[340px] rounded-xl bg-black/80 p-3 font-brand-mono text-xs text-white shadow-2xl">
+      <div className="flex items-center justify-between">
+        <span>
+          Session: <span className={STATE_COLORS[state]}>{state}</span>
+        </span>
+        <button onClick={() => setIsCollapsed((collapsed) => !collapsed)} className="text-gray-400 hover:text-white">
+          {isCollapsed ? "show" : "hide"}
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="mt-2 space-y-2">
+          <div className="text-gray-300">
+            Audio: {Math.round(audioStats.bufferedMs)}ms buffered, {Math.round(audioStats.queuedMs)}ms queued,{" "}
+            <span className={cn(audioStats.underruns > 0 && "text-yellow-400")}>{audioStats.underruns} underruns</span>
+          </div>
+
+          {startupMarks.length > 0 && (
+            <div>
+              <div className="text-gray-400">Startup</div>
+              {startupMarks.map((mark) => (
+                <div key={mark.phase} className="flex justify-between">
+                  <span>{mark.phase}</span>
+                  <span>+{mark.atMs}ms</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {turns.length > 0 && (
+            <div className="max-h-64 overflow-y-auto">
+              <div className="text-gray-400">Turns, timed from the end of user input</div>
+              {[...turns].reverse().map((turn) => {
+                const interruptedMs = timeToEvent(turn, "interrupted");
+                return (
+                  <div key={turn.id} className="border-t border-white/10 py-1">
+                    <div className="flex justify-between">
+                      <span>
+                        #{turn.id} {turn.events[0].type}
+                      </span>
+                      {interruptedMs !== undefined && (
+                        <span className="text-yellow-400">interrupted +{interruptedMs}ms</span>
+                      )}
+                    </div>
+                    <div className="flex justify-between text-gray-300">
+                      <span>first delta {formatMs(timeToEvent(turn, "first_delta"))}</span>
+                      <span>first audio {formatMs(timeToEvent(turn, "first_audio_sent"))}</span>
+                    </div>
+                    {toolDurations(turn).map((tool, index) => (
+                      <div key={index} className="text-gray-300">
+                        tool {tool.name}: {formatMs(tool.ms)}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DebugOverlay;
@@ -0,0 +1,61 @@
+import React, { useEffect } from "react";
+import cn from "@/app/utils/TailwindMergeAndClsx";
+import { RECOVERY_ACTION_LABELS, RecoveryAction, SessionError } from "@/app/utils/errors";
+
+interface Props {
+  error: SessionError | null;
+  onAction: (action: RecoveryAction) => void;
+  /** Actions that make no sense where the notice is shown, e.g. switching to the current mode. */
+  hiddenActions?: RecoveryAction[];
+  className?: string;
+}
+
+// Warnings don't need attention once read
+const WARNING_DISMISS_MS = 6000;
+
+/**
+ * Shows an error with its recovery actions. Warnings, such as a tool that
+ * failed mid-conversation, are muted and dismiss themselves.
+ */
+const ErrorNotice = ({ error, onAction, hiddenActions = [], className }: Props) => {
+  useEffect(() => {
+    if (error?.severity !== "warning") return;
+    const timer = setTimeout(() => onAction("dismiss"), WARNING_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [error, onAction]);
+
+  if (!error) return null;
+
+  const isWarning = error.severity === "warning";
+  const actions = error.actions.filter((action) => !hiddenActions.includes(action));
+  return (
+    <div
+      role={isWarning ? "status" : "alert"}
+      className={cn(
+        "flex flex-col items-center gap-2 text-center font-brand-mono",
+        isWarning ? "text-sm text-gray-300" : "text-red-500",
+        className
+      )}
+    >
+      <span>{error.message}</span>
+      {actions.length > 0 && (
+        <div className="flex gap-2">
+          {actions.map((action) => (
+            <button
+              key={action}
+              onClick={() => (action === "reload" ? window.location.reload() : onAction(action))}
+              className={cn(
+                "rounded-[100px] px-4 py-1 text-sm transition-all duration-300 hover:rounded-sm",
+                isWarning ? "bg-white/10 text-gray-200 hover:bg-white/20" : "bg-white text-black hover:bg-gray-200"
+              )}
+            >
+              {RECOVERY_ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,30 @@
+import React from "react";
+import { WidgetTheme } from "@/app/utils/theme";
+
+interface Props {
+  media: WidgetTheme["idleMedia"];
+  size: number;
+}
+
+/**
+ * The customer's image or looping video shown above the start button.
+ */
+const IdleMedia = ({ media, size }: Props) => {
+  if (media.type === "video") {
+    return (
+      <video
+        src={media.url}
+        width={size}
+        height={size}
+        autoPlay
+        loop
+        muted
+        playsInline
+        className="mx-auto object-contain"
+      />
+    );
+  }
+  return <img src={media.url} alt="Holoagent Animation" width={size} height={size} className="mx-auto" />;
+};
+
+export default IdleMedia;
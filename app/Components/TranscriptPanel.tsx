@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from "react";
+import cn from "@/app/utils/TailwindMergeAndClsx";
+import { TranscriptTurn } from "./types";
+
+interface Props {
+  turns: TranscriptTurn[];
+  className?: string;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+/**
+ * Scrollable live transcript of the conversation, newest turn at the bottom.
+ */
+const TranscriptPanel = ({ turns, className }: Props) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view while deltas stream in
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [turns]);
+
+  if (turns.length === 0) return null;
+
+  return (
+    <div
+      ref={scrollRef}
+      className={cn(
+        "w-full max-w-[800px] max-h-48 overflow-y-auto rounded-xl bg-white/5 p-4 space-y-3 font-brand text-sm",
+        className
+      )}
+    >
+      {turns.map((turn) => (
+        <div
+          key={turn.id}
+          className={cn("flex flex-col", turn.role === "user" ? "items-end" : "items-start")}
+        >
+          <div className="flex items-center gap-2 text-xs text-gray-400 font-brand-mono">
+            <span>{turn.role === "user" ? "You" : "Agent"}</span>
+            <span>{formatTime(turn.timestamp)}</span>
+            {turn.interrupted && <span className="text-yellow-400">interrupted</span>}
+          </div>
+          <p
+            className={cn(
+              "mt-1 max-w-[85%] rounded-lg px-3 py-2",
+              turn.role === "user" ? "bg-blue-500/30 text-white" : "bg-white/10 text-gray-100",
+              !turn.isComplete && !turn.interrupted && "opacity-80"
+            )}
+          >
+            {turn.heardChars === undefined ? (
+              turn.text
+            ) : (
+              <>
+                {turn.text.slice(0, turn.heardChars)}
+                <span className="text-yellow-400"> ✂ </span>
+                <span className="text-gray-500 line-through">{turn.text.slice(turn.heardChars)}</span>
+              </>
+            )}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
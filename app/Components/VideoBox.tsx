@@ -1,8 +1,16 @@
 
+import cn from "@/app/utils/TailwindMergeAndClsx";
+
 export default function VideoBox(props: any) {
     return (
-        <div className="aspect-video flex rounded-sm overflow-hidden items-center h-[650px] w-[550px] justify-center">
-            <video ref={props.video} autoPlay playsInline></video>
+        <div
+            className={cn(
+                "avatar-frame aspect-video flex rounded-avatar overflow-hidden items-center justify-center",
+                // The embed iframe is much smaller than a full page, so the box follows its width
+                props.compact ? "w-full max-w-[400px] h-[55vh]" : "h-[650px] w-[550px]"
+            )}
+        >
+            <video ref={props.video} autoPlay playsInline className={cn(props.compact && "h-full w-full object-cover")}></video>
             <audio ref={props.audio} autoPlay ></audio>
         </div>
     );
@@ -16,4 +16,30 @@ export interface Avatar {
     initialPrompt: string;
     audioStream: MediaStream | null;
   }
-  
\ No newline at end of file
+  
+  /**
+   * A single user or assistant turn shown in the live transcript.
+   */
+  export interface TranscriptTurn {
+    id: string;
+    role: "user" | "assistant";
+    text: string;
+    timestamp: number;
+    isComplete: boolean;
+    interrupted?: boolean;
+    /** For interrupted turns, how much of the text the user actually heard. */
+    heardChars?: number;
+  }
+
+  /**
+   * A tool invocation made by the model during a session, with its outcome.
+   */
+  export interface ToolCallRecord {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+    result?: unknown;
+    error?: string;
+    startedAt: number;
+    endedAt: number;
+  }
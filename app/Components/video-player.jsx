@@ -1,4 +1,7 @@
 import React, { useState, useRef, useEffect } from "react";
+import { createLogger } from "@/app/utils/logger";
+
+const log = createLogger("VideoPlayer");
 
 const VideoPopupPlayer = ({ videoName, onClose }) => {
   const videoRef = useRef(null);
@@ -34,7 +37,7 @@ const VideoPopupPlayer = ({ videoName, onClose }) => {
       setIsVisible(true);
       if (videoRef.current && getVideoSource(videoName).type === "s3") {
         videoRef.current.play().catch((err) => {
-          console.warn("Autoplay failed:", err);
+          log.warn("Autoplay failed:", err);
         });
       }
     } else {
@@ -1,28 +1,71 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import SimliOpenAI from "./SimliOpenAI";
 import SimliOpenAIPushToTalk from "./SimliOpenAIPushToTalk";
-import { validateCustomer, ValidationResponse } from "./services/validateCustomer";
-import { updateDuration, UpdateDurationResponse } from "./services/updateDuration";
+import SimliOpenAIText from "./SimliOpenAIText";
+import { fetchCustomerConfig, PublicValidationResponse, ToolDefinition } from "./services/validateCustomer";
+import {
+  beaconDuration,
+  DURATION_HEARTBEAT_INTERVAL_MS,
+  updateDuration,
+  UpdateDurationResponse,
+} from "./services/updateDuration";
+import {
+  beaconSessionTranscript,
+  SessionTranscriptPayload,
+  uploadSessionTranscript,
+} from "./services/sessionTranscript";
+import { usesRelayServer } from "./utils/createRealtimeClient";
+import { DEFAULT_TOOLS } from "./utils/toolRegistry";
+import {
+  DEFAULT_WALLET_URL,
+  DEFAULT_WRAP_UP_MESSAGE,
+  DEFAULT_WRAP_UP_SECONDS,
+  formatRemaining,
+  TOKEN_LIMIT_GRACE_MS,
+  TOKEN_LIMIT_MESSAGE,
+} from "./utils/sessionLimit";
+import { addResponseUsage, emptyTokenUsage, RealtimeUsage } from "./utils/tokenUsage";
+import { reportSessionError } from "./services/reportError";
+import { ToolCallRecord, TranscriptTurn } from "./Components/types";
+import ErrorNotice from "./Components/ErrorNotice";
+import { classifyError, SessionError, toSessionError } from "./utils/errors";
+import { createEmbedBridge, EmbedBridge, getHostOrigin, withHostContext } from "./utils/embedBridge";
+import { isOriginAllowed } from "./utils/allowedOrigins";
+import { TokenScope } from "./utils/sessionToken";
+import { DEFAULT_THEME, resolveTheme, themeStyle, WidgetTheme } from "./utils/theme";
+import { createLogger, setLogSessionId } from "./utils/logger";
+import cn from "./utils/TailwindMergeAndClsx";
+
+const log = createLogger("InteractionPage");
 
 // Extend the validation response to include the time-limit flag
 declare module "./services/validateCustomer" {
-  export interface ValidationResponse {
+  export interface PublicValidationResponse {
     is_duration_valid?: 0 | 1;
   }
 }
 
-// Config type for SimliOpenAI and SimliOpenAIPushToTalk
+// Config type for SimliOpenAI, SimliOpenAIPushToTalk and SimliOpenAIText
 interface CustomerConfig {
   simli_faceid: string;
   openai_voice: "alloy" | "ash" | "ballad" | "coral" | "echo" | "sage" | "shimmer" | "verse";
   openai_model: string;
-  openai_api_key: string;
   initialPrompt: string;
+  tools: ToolDefinition[];
   logo_url?: string;
+  allowed_duration?: number;
+  wrap_up_seconds: number;
+  wrap_up_message: string;
+  max_session_tokens?: number;
+  /** Modes the session token allows. */
+  scopes: TokenScope[];
+  theme: WidgetTheme;
 }
 
+type InteractionMode = "continuous" | "push-to-talk" | "text";
+
 const validVoices = [
   "alloy",
   "ash",
@@ -34,30 +77,75 @@ const validVoices = [
   "verse",
 ] as const;
 
+/**
+ * Whether the page framing the widget, if any, may embed a customer with these
+ * `allowed_origins`. An empty list allows any site.
+ */
+const isHostAllowed = (allowedOrigins: string[] | undefined) => {
+  if (!allowedOrigins?.length || window.parent === window) return true;
+  const hostOrigin = getHostOrigin();
+  return Boolean(hostOrigin && isOriginAllowed(hostOrigin, [window.location.origin, ...allowedOrigins]));
+};
+
 const DynamicInteractionPage: React.FC = () => {
   const [customerValid, setCustomerValid] = useState(false);
   const [config, setConfig] = useState<CustomerConfig | null>(null);
-  const [error, setError] = useState("");
+  const [error, setError] = useState<SessionError | null>(null);
   const [showLimitModal, setShowLimitModal] = useState(false);
-  const [interactionMode, setInteractionMode] = useState<"continuous" | "push-to-talk">("continuous");
+  const [interactionMode, setInteractionMode] = useState<InteractionMode>("continuous");
+  const [walletUrl, setWalletUrl] = useState(DEFAULT_WALLET_URL);
+  const [isSessionLive, setIsSessionLive] = useState(false);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+  const [wrapUpLine, setWrapUpLine] = useState<string | null>(null);
+  const [stopRequested, setStopRequested] = useState(false);
+  const [showDebug, setShowDebug] = useState(false);
+  // Loaded inside the embed.js iframe
+  const [isEmbedded, setIsEmbedded] = useState(false);
+  // Set when framed by a host page; see embedBridge.ts for the protocol
+  const [embedBridge, setEmbedBridge] = useState<EmbedBridge | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [hostContext, setHostContext] = useState<string | null>(null);
+  // The session token sessions start with; the host page may replace it through set_token
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
 
+  // Start of the time not yet reported to the backend
   const startTimeRef = useRef<number | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const heartbeatRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const tokenRef = useRef<string | null>(null);
+  // Face of the loaded config; a replacement token must be for the same one
+  const faceIdRef = useRef<string | null>(null);
+  const sessionStartRef = useRef<number | null>(null);
+  const transcriptRef = useRef<TranscriptTurn[]>([]);
+  const toolCallsRef = useRef<ToolCallRecord[]>([]);
+  // Transcript turns already posted to the host page
+  const postedTurnIdsRef = useRef(new Set<string>());
+  // Plan usage in seconds as of `usedAsOfRef`; the live session's time since then is added on top
+  const usedSecondsRef = useRef(0);
+  const usedAsOfRef = useRef<number | null>(null);
+  const tokenUsageRef = useRef(emptyTokenUsage());
+  const tokenLimitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Validate token and fetch config
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
     const token = urlParams.get("token");
     tokenRef.current = token;
+    setSessionToken(token);
+    setShowDebug(urlParams.get("debug") === "1");
+    setIsEmbedded(urlParams.get("embed") === "1");
 
     if (!token) {
-      setError("No token provided in the URL.");
+      setError(toSessionError("token_missing"));
       return;
     }
 
     (async () => {
       try {
-        const resp = (await validateCustomer(token)) as ValidationResponse & { is_duration_valid?: 0 | 1 };
+        const resp = (await fetchCustomerConfig(token)) as PublicValidationResponse & { is_duration_valid?: 0 | 1 };
+        if (resp.data?.wallet_url) {
+          setWalletUrl(resp.data.wallet_url);
+        }
 
         // If the time limit is already expired, show modal right away
         if (resp.is_duration_valid === 0) {
@@ -65,8 +153,16 @@ const DynamicInteractionPage: React.FC = () => {
           return;
         }
 
-        if (resp.status !== 1 || !resp.data) {
-          setError("Invalid token. Please provide a valid token in the URL.");
+        if (resp.status !== 1 || !resp.data || !resp.data.scopes.length) {
+          setError(toSessionError("token_invalid", resp.message));
+          return;
+        }
+
+        // A copied token must not run on someone else's site; the CSP set by the middleware is the first line
+        if (!isHostAllowed(resp.data.allowed_origins)) {
+          const hostOrigin = getHostOrigin();
+          log.warn(`Refusing to run on ${hostOrigin ?? "an unknown origin"}`);
+          setError(toSessionError("origin_not_allowed", hostOrigin ?? undefined));
           return;
         }
 
@@ -81,69 +177,346 @@ const DynamicInteractionPage: React.FC = () => {
         setConfig({
           simli_faceid: resp.data.face_id,
           openai_voice: voice,
-          openai_api_key: resp.data.openai_api_key || "",
           openai_model: resp.data.openai_model || "gpt-4o-mini-realtime-preview-2024-12-17",
           initialPrompt: modifiedInitialPrompt,
+          tools: resp.data.tools?.length ? resp.data.tools : DEFAULT_TOOLS,
           logo_url: resp.data.logo_url || "",
+          allowed_duration: resp.data.allowed_duration,
+          wrap_up_seconds: resp.data.wrap_up_seconds ?? DEFAULT_WRAP_UP_SECONDS,
+          wrap_up_message: resp.data.wrap_up_message || DEFAULT_WRAP_UP_MESSAGE,
+          max_session_tokens: resp.data.max_session_tokens,
+          scopes: resp.data.scopes,
+          theme: resolveTheme(resp.data.theme),
         });
+        if (!resp.data.scopes.includes("voice")) {
+          setInteractionMode("text");
+        }
+
+        usedSecondsRef.current = resp.data.total_duration ?? 0;
+        if (resp.data.allowed_duration) {
+          setRemainingSeconds(resp.data.allowed_duration - usedSecondsRef.current);
+        }
 
+        faceIdRef.current = resp.data.face_id;
         setCustomerValid(true);
-        setError("");
+        setError(null);
       } catch (err) {
-        setError("Error validating token. Please try again.");
+        log.error("Failed to validate token", err);
+        setError(classifyError(err, "network"));
       }
     })();
   }, []);
 
-  // Start timing on interaction open
+  // Start timing on interaction open. The relay server keeps its own timestamps.
   const handleStart = () => {
-    startTimeRef.current = Date.now();
+    sessionStartRef.current = Date.now();
+    transcriptRef.current = [];
+    toolCallsRef.current = [];
+    usedAsOfRef.current = Date.now();
+    tokenUsageRef.current = emptyTokenUsage();
+    clearTokenLimitTimer();
+    setIsSessionLive(true);
+    setWrapUpLine(null);
+    setStopRequested(false);
+    postedTurnIdsRef.current.clear();
+    // Tags logs, error reports and host events in every mode; usage reports only without the relay
+    sessionIdRef.current = crypto.randomUUID();
+    setLogSessionId(sessionIdRef.current);
+    if (!usesRelayServer) {
+      startTimeRef.current = Date.now();
+      stopHeartbeat();
+      heartbeatRef.current = setInterval(() => reportDuration(false), DURATION_HEARTBEAT_INTERVAL_MS);
+    }
+    embedBridge?.post({
+      type: "session.started",
+      sessionId: sessionIdRef.current ?? undefined,
+      mode: interactionMode,
+    });
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current);
+      heartbeatRef.current = null;
+    }
+  };
+
+  // The plan ran out: the interaction stops itself and the limit modal opens
+  const handleLimitReached = useCallback(() => {
+    setShowLimitModal(true);
+  }, []);
+
+  const clearTokenLimitTimer = () => {
+    if (tokenLimitTimerRef.current) {
+      clearTimeout(tokenLimitTimerRef.current);
+      tokenLimitTimerRef.current = null;
+    }
+  };
+
+  // Sums Realtime token usage per session; past the cap the avatar says goodbye and the session stops
+  const handleUsage = useCallback(
+    (usage: RealtimeUsage) => {
+      tokenUsageRef.current = addResponseUsage(tokenUsageRef.current, usage);
+
+      const cap = config?.max_session_tokens;
+      if (!cap || tokenUsageRef.current.total_tokens < cap || tokenLimitTimerRef.current) return;
+      log.warn(`Session token cap of ${cap} reached`);
+      setWrapUpLine(TOKEN_LIMIT_MESSAGE);
+      tokenLimitTimerRef.current = setTimeout(() => setStopRequested(true), TOKEN_LIMIT_GRACE_MS);
+    },
+    [config]
+  );
+
+  const getRemainingSeconds = () => {
+    if (!config?.allowed_duration) return null;
+    const unreported = usedAsOfRef.current ? (Date.now() - usedAsOfRef.current) / 1000 : 0;
+    return config.allowed_duration - usedSecondsRef.current - unreported;
+  };
+
+  // Count down while live: wrap up near the limit and stop once it is reached
+  useEffect(() => {
+    if (!isSessionLive || !config?.allowed_duration) return;
+
+    const tick = () => {
+      const remaining = getRemainingSeconds();
+      if (remaining === null) return;
+      setRemainingSeconds(remaining);
+      if (remaining <= 0) {
+        handleLimitReached();
+      } else if (remaining <= config.wrap_up_seconds) {
+        setWrapUpLine((line) => line ?? config.wrap_up_message);
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [isSessionLive, config, handleLimitReached]);
+
+  const handleTranscriptUpdate = useCallback(
+    (turns: TranscriptTurn[]) => {
+      transcriptRef.current = turns;
+      if (!embedBridge) return;
+      for (const turn of turns) {
+        if ((!turn.isComplete && !turn.interrupted) || postedTurnIdsRef.current.has(turn.id)) continue;
+        postedTurnIdsRef.current.add(turn.id);
+        embedBridge.post({ type: "transcript.turn", turn });
+      }
+    },
+    [embedBridge]
+  );
+
+  const handleToolCall = useCallback(
+    (call: ToolCallRecord) => {
+      toolCallsRef.current.push(call);
+      embedBridge?.post({ type: "tool.call", call });
+    },
+    [embedBridge]
+  );
+
+  const handleVideoPlay = useCallback(
+    (videoUrl: string) => {
+      embedBridge?.post({ type: "video.play", url: videoUrl });
+    },
+    [embedBridge]
+  );
+
+  const handleSwitchToText = useCallback(() => {
+    setInteractionMode("text");
+  }, []);
+
+  // Let the backend know about sessions that failed, so broken setups get noticed
+  const handleFatalError = useCallback(
+    (sessionError: SessionError) => {
+      if (!config || !tokenRef.current) return;
+      reportSessionError({
+        face_id: config.simli_faceid,
+        session_token: tokenRef.current,
+        session_id: sessionIdRef.current ?? undefined,
+        category: sessionError.category,
+        detail: sessionError.detail,
+        interaction_mode: interactionMode,
+        occurred_at: Date.now(),
+      }).catch((err) => log.warn("Failed to report session error", err));
+    },
+    [config, interactionMode]
+  );
+
+  // Builds the transcript upload for the current session and marks it as sent
+  const takeSessionTranscript = (): SessionTranscriptPayload | null => {
+    if (!sessionStartRef.current || !config || !tokenRef.current) return null;
+    const payload: SessionTranscriptPayload = {
+      face_id: config.simli_faceid,
+      session_token: tokenRef.current,
+      started_at: sessionStartRef.current,
+      ended_at: Date.now(),
+      turns: transcriptRef.current,
+      tool_calls: toolCallsRef.current,
+    };
+    sessionStartRef.current = null;
+    return payload;
+  };
+
+  // Upload the session transcript and tool calls on interaction close
+  const flushTranscript = async () => {
+    const payload = takeSessionTranscript();
+    if (!payload) return;
+
+    try {
+      await uploadSessionTranscript(payload);
+    } catch (err) {
+      log.error("Failed to upload session transcript", err);
+    }
   };
 
-  // Flush elapsed seconds to backend on interaction close
-  const flushDuration = async () => {
+  // Report the seconds since the last report: periodically while live, and once more on close
+  const reportDuration = async (isFinal: boolean) => {
     if (!startTimeRef.current || !config || !tokenRef.current) return;
     const elapsedSec = Math.floor((Date.now() - startTimeRef.current) / 1000);
-    startTimeRef.current = null;
+    // Sub-second remainders carry over to the next heartbeat
+    startTimeRef.current = isFinal ? null : startTimeRef.current + elapsedSec * 1000;
+    usedSecondsRef.current += elapsedSec;
+    usedAsOfRef.current = startTimeRef.current;
+    if (isFinal) stopHeartbeat();
 
     try {
-      const result = (await updateDuration(
-        config.simli_faceid,
-        tokenRef.current,
-        elapsedSec
-      )) as UpdateDurationResponse & { is_duration_valid: 0 | 1 };
+      const result = (await updateDuration(config.simli_faceid, tokenRef.current, elapsedSec, {
+        session_id: sessionIdRef.current ?? undefined,
+        is_final: isFinal,
+        token_usage: tokenUsageRef.current,
+      })) as UpdateDurationResponse & { is_duration_valid: 0 | 1 };
 
+      // The backend's total also covers other sessions of the same plan
+      if (result.data?.total_duration !== undefined) {
+        usedSecondsRef.current = result.data.total_duration;
+      }
       if (result.is_duration_valid === 0) {
-        setShowLimitModal(true);
+        stopHeartbeat();
+        handleLimitReached();
       }
     } catch (err) {
-      console.error("Failed to update duration", err);
+      log.error("Failed to update duration", err);
+    }
+  };
+
+  const handleClose = () => {
+    if (embedBridge && sessionStartRef.current) {
+      embedBridge.post({
+        type: "session.ended",
+        sessionId: sessionIdRef.current ?? undefined,
+        durationSeconds: Math.round((Date.now() - sessionStartRef.current) / 1000),
+      });
+    }
+    flushTranscript();
+    reportDuration(true);
+    // Without heartbeats (relay mode) only the local clock knows how long the session ran
+    if (usedAsOfRef.current) {
+      usedSecondsRef.current += (Date.now() - usedAsOfRef.current) / 1000;
+      usedAsOfRef.current = null;
     }
+    setRemainingSeconds(getRemainingSeconds());
+    clearTokenLimitTimer();
+    setIsSessionLive(false);
+    setWrapUpLine(null);
   };
 
-  // On page refresh/close, send leftover time via sendBeacon
+  useEffect(() => () => {
+    stopHeartbeat();
+    clearTokenLimitTimer();
+  }, []);
+
+  // A token from the host page is only taken once it checks out like the first one did:
+  // the same agent, and a customer that allows this site to embed it
+  const acceptHostToken = async (token: string) => {
+    try {
+      const resp = await fetchCustomerConfig(token);
+      if (resp.status !== 1 || !resp.data || !resp.data.scopes.length) {
+        log.warn("Ignoring a replacement token that is not valid");
+        return;
+      }
+      if (!faceIdRef.current || resp.data.face_id !== faceIdRef.current) {
+        log.warn("Ignoring a replacement token for another agent");
+        return;
+      }
+      if (!isHostAllowed(resp.data.allowed_origins)) {
+        log.warn("Ignoring a replacement token whose customer does not allow this site");
+        return;
+      }
+      tokenRef.current = token;
+      setSessionToken(token);
+    } catch (err) {
+      log.warn("Ignoring a replacement token that could not be checked", err);
+    }
+  };
+
+  // Talk to the host page when framed, e.g. by embed.js. Start, stop and send_text are run by the session itself.
+  useEffect(() => {
+    const hostOrigin = getHostOrigin();
+    if (!hostOrigin) return;
+
+    const bridge = createEmbedBridge(hostOrigin);
+    bridge.onCommand((command) => {
+      if (command.type === "mute") {
+        setIsMuted(command.muted);
+      } else if (command.type === "set_context") {
+        setHostContext(command.context || null);
+      } else if (command.type === "set_token") {
+        acceptHostToken(command.token);
+      }
+    });
+    setEmbedBridge(bridge);
+    return () => {
+      bridge.destroy();
+      setEmbedBridge(null);
+    };
+  }, []);
+
+  // Ready once the interaction widget is mounted and listening for commands
+  useEffect(() => {
+    if (embedBridge && customerValid) {
+      embedBridge.post({ type: "widget.ready" });
+    }
+  }, [embedBridge, customerValid]);
+
+  useEffect(() => {
+    if (showLimitModal) {
+      embedBridge?.post({ type: "limit.reached" });
+    }
+  }, [embedBridge, showLimitModal]);
+
+  // On page refresh/close, send leftover time and the transcript via sendBeacon
   useEffect(() => {
     const onBeforeUnload = () => {
-      if (!startTimeRef.current || !config || !tokenRef.current) return;
-      const elapsedSec = Math.floor((Date.now() - startTimeRef.current) / 1000);
-      const payload = JSON.stringify({
-        face_id: config.simli_faceid,
-        customer_id: tokenRef.current,
-        added_seconds: elapsedSec,
-      });
-      const blob = new Blob([payload], { type: "application/json" });
-      navigator.sendBeacon(
-        `${process.env.NEXT_PUBLIC_API_URL}/simli/update-duration`,
-        blob
-      );
+      // Usage goes first: beacons share a size budget and a large transcript could use it up
+      if (startTimeRef.current && config && tokenRef.current) {
+        const elapsedSec = Math.floor((Date.now() - startTimeRef.current) / 1000);
+        beaconDuration(config.simli_faceid, tokenRef.current, elapsedSec, {
+          session_id: sessionIdRef.current ?? undefined,
+          is_final: true,
+          token_usage: tokenUsageRef.current,
+        });
+      }
+
+      const transcript = takeSessionTranscript();
+      if (transcript && !beaconSessionTranscript(transcript)) {
+        log.warn("Session transcript beacon was refused; trying a keepalive request instead");
+      }
     };
 
     window.addEventListener("beforeunload", onBeforeUnload);
     return () => window.removeEventListener("beforeunload", onBeforeUnload);
   }, [config]);
 
+  const theme = config?.theme ?? DEFAULT_THEME;
+
   return (
-    <div className="bg-black min-h-screen flex flex-col items-center justify-center font-abc-repro text-sm text-white p-8">
+    <div
+      className={cn(
+        "bg-brand-background flex flex-col items-center justify-center font-brand text-sm text-brand-text",
+        isEmbedded ? "h-screen overflow-hidden p-2" : "min-h-screen p-8"
+      )}
+      style={themeStyle(theme)}
+      data-avatar-frame={theme.avatarFrame}
+    >
       {/* Popup Modal for expired session */}
       {showLimitModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70">
@@ -153,7 +526,7 @@ const DynamicInteractionPage: React.FC = () => {
               You’ve reached your conversation limit. Please upgrade your plan to continue.
             </p>
             <a
-              href="https://holoagent.ai/index/wallet"
+              href={walletUrl}
               className="inline-block px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition"
             >
               Go to Payment
@@ -164,62 +537,143 @@ const DynamicInteractionPage: React.FC = () => {
 
       {/* Logo (if any) */}
       {config?.logo_url && !showLimitModal && (
-        <div className="absolute top-5 right-5">
+        <div className={cn("absolute", isEmbedded ? "top-2 left-2" : "top-5 right-5")}>
           <img
             src={config.logo_url}
             alt="Logo"
-            className="h-24 object-contain"
+            className={cn("object-contain", isEmbedded ? "h-8" : "h-24")}
           />
         </div>
       )}
 
       {/* Error message */}
-      {!customerValid && !showLimitModal && error && (
-        <div className="bg-red-100 text-red-800 p-4 rounded mb-4">
-          {error}
-        </div>
+      {!customerValid && !showLimitModal && (
+        <ErrorNotice
+          error={error}
+          onAction={() => setError(null)}
+          className="bg-red-100 text-red-800 p-4 rounded mb-4"
+        />
       )}
 
-      {/* Interaction widget */}
-      {customerValid && !showLimitModal && config && (
-        <div className="flex flex-col items-center gap-6 bg-effect15White p-6 pb-[40px] rounded-xl w-full">
+      {/* Interaction widget. Stays mounted under the limit modal so a live session can stop cleanly. */}
+      {customerValid && config && (
+        <div
+          className={cn(
+            "flex flex-col items-center bg-effect15White rounded-xl w-full",
+            isEmbedded ? "h-full gap-2 p-2" : "gap-6 p-6 pb-[40px]"
+          )}
+        >
           {/* Interaction Mode Toggle */}
           <div className="flex items-center gap-4">
-            <label className="text-white font-abc-repro-mono">Interaction Mode:</label>
+            {!isEmbedded && <label className="text-white font-brand-mono">Interaction Mode:</label>}
             <select
               value={interactionMode}
-              onChange={(e) => setInteractionMode(e.target.value as "continuous" | "push-to-talk")}
-              className="bg-gray-800 text-white rounded px-2 py-1 font-abc-repro-mono"
+              onChange={(e) => setInteractionMode(e.target.value as InteractionMode)}
+              className="bg-gray-800 text-white rounded px-2 py-1 font-brand-mono"
             >
-              <option value="continuous">Regular</option>
-              <option value="push-to-talk">Push-to-Talk</option>
+              {config.scopes.includes("voice") && (
+                <>
+                  <option value="continuous">Regular</option>
+                  <option value="push-to-talk">Push-to-Talk</option>
+                </>
+              )}
+              {config.scopes.includes("text") && <option value="text">Text Chat</option>}
             </select>
           </div>
 
+          {/* Plan time left, turning into a countdown shortly before the limit */}
+          {remainingSeconds !== null && (
+            isSessionLive && remainingSeconds <= config.wrap_up_seconds ? (
+              <div className="rounded px-3 py-1 bg-red-500/20 text-red-300 font-brand-mono">
+                Session ends in {formatRemaining(remainingSeconds, true)}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-400 font-brand-mono">
+                {formatRemaining(remainingSeconds, false)}
+              </div>
+            )
+          )}
+
           {/* Conditionally render the appropriate component */}
           {interactionMode === "continuous" ? (
             <SimliOpenAI
               simli_faceid={config.simli_faceid}
               openai_voice={config.openai_voice}
               openai_model={config.openai_model}
-              openai_api_key={config.openai_api_key}
-              initialPrompt={config.initialPrompt}
+              customerToken={sessionToken ?? ""}
+              tools={config.tools}
+              initialPrompt={withHostContext(config.initialPrompt, hostContext)}
               userId={config.simli_faceid}
               onStart={handleStart}
-              onClose={flushDuration}
+              onClose={handleClose}
+              onTranscriptUpdate={handleTranscriptUpdate}
+              onToolCall={handleToolCall}
+              onVideoPlay={handleVideoPlay}
+              onLimitReached={handleLimitReached}
+              onUsage={handleUsage}
+              stopRequested={showLimitModal || stopRequested}
+              wrapUpLine={wrapUpLine}
+              muted={isMuted}
+              embedBridge={embedBridge}
               showDottedFace={false}
+              debug={showDebug}
+              embedded={isEmbedded}
+              theme={theme}
+              onFatalError={handleFatalError}
+              onSwitchToText={config.scopes.includes("text") ? handleSwitchToText : undefined}
             />
-          ) : (
+          ) : interactionMode === "push-to-talk" ? (
             <SimliOpenAIPushToTalk
               simli_faceid={config.simli_faceid}
               openai_voice={config.openai_voice}
               openai_model={config.openai_model}
-              openai_api_key={config.openai_api_key}
-              initialPrompt={config.initialPrompt}
+              customerToken={sessionToken ?? ""}
+              tools={config.tools}
+              initialPrompt={withHostContext(config.initialPrompt, hostContext)}
+              userId={config.simli_faceid}
+              onStart={handleStart}
+              onClose={handleClose}
+              onTranscriptUpdate={handleTranscriptUpdate}
+              onToolCall={handleToolCall}
+              onVideoPlay={handleVideoPlay}
+              onLimitReached={handleLimitReached}
+              onUsage={handleUsage}
+              stopRequested={showLimitModal || stopRequested}
+              wrapUpLine={wrapUpLine}
+              muted={isMuted}
+              embedBridge={embedBridge}
+              showDottedFace={false}
+              debug={showDebug}
+              embedded={isEmbedded}
+              theme={theme}
+              onFatalError={handleFatalError}
+              onSwitchToText={config.scopes.includes("text") ? handleSwitchToText : undefined}
+            />
+          ) : (
+            <SimliOpenAIText
+              simli_faceid={config.simli_faceid}
+              openai_voice={config.openai_voice}
+              openai_model={config.openai_model}
+              customerToken={sessionToken ?? ""}
+              tools={config.tools}
+              initialPrompt={withHostContext(config.initialPrompt, hostContext)}
               userId={config.simli_faceid}
               onStart={handleStart}
-              onClose={flushDuration}
+              onClose={handleClose}
+              onTranscriptUpdate={handleTranscriptUpdate}
+              onToolCall={handleToolCall}
+              onVideoPlay={handleVideoPlay}
+              onLimitReached={handleLimitReached}
+              onUsage={handleUsage}
+              stopRequested={showLimitModal || stopRequested}
+              wrapUpLine={wrapUpLine}
+              muted={isMuted}
+              embedBridge={embedBridge}
               showDottedFace={false}
+              debug={showDebug}
+              embedded={isEmbedded}
+              theme={theme}
+              onFatalError={handleFatalError}
             />
           )}
         </div>
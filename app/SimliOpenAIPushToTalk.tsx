@@ -1,403 +1,85 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { RealtimeClient } from "@openai/realtime-api-beta";
-import { SimliClient } from "simli-client";
-import VideoBox from "./Components/VideoBox";
-import VideoPopupPlayer from "./Components/video-player";
+import AvatarStage from "./Components/AvatarStage";
 import cn from "./utils/TailwindMergeAndClsx";
+import { AvatarSessionProps, useAvatarSession } from "./utils/useAvatarSession";
+import { useDraggableAvatar } from "./utils/useDraggableAvatar";
+import { InputLevel, MicrophoneCapture, startMicrophoneCapture } from "./utils/microphoneCapture";
+import { classifyError, RecoveryAction } from "./utils/errors";
+import { createLogger } from "./utils/logger";
+import { DEFAULT_THEME, WidgetTheme } from "./utils/theme";
 import IconExit from "@/media/IconExit";
-import IconSparkleLoader from "@/media/IconSparkleLoader";
-
-interface SimliOpenAIPushToTalkProps {
-  simli_faceid: string;
-  openai_voice: "alloy" | "ash" | "ballad" | "coral" | "echo" | "sage" | "shimmer" | "verse";
-  openai_model: string;
-  initialPrompt: string;
-  openai_api_key: string;
-  userId: string;
-  onStart: () => void;
-  onClose: () => void;
+
+const log = createLogger("PushToTalk");
+
+interface SimliOpenAIPushToTalkProps extends AvatarSessionProps {
   showDottedFace: boolean;
+  /** Shows the latency and connection overlay, enabled with `?debug=1`. */
+  debug?: boolean;
+  /** Compact layout for the embed iframe. */
+  embedded?: boolean;
+  /** The customer's branding: labels and idle media; colors and fonts come from CSS variables. */
+  theme?: WidgetTheme;
+  onSwitchToText?: () => void;
 }
 
-const simliClient = new SimliClient();
-
-const SimliOpenAIPushToTalk: React.FC<SimliOpenAIPushToTalkProps> = ({
-  simli_faceid,
-  openai_voice,
-  openai_model,
-  initialPrompt,
-  openai_api_key,
-  userId,
-  onStart,
-  onClose,
-  showDottedFace,
-}) => {
+// Presses shorter than this are treated as accidental and discarded
+const MIN_PUSH_TO_TALK_MS = 300;
+
+const SimliOpenAIPushToTalk: React.FC<SimliOpenAIPushToTalkProps> = ({ showDottedFace, debug, embedded = false, theme = DEFAULT_THEME, onSwitchToText, ...sessionProps }) => {
   // State management
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [isAvatarVisible, setIsAvatarVisible] = useState<boolean>(false);
-  const [error, setError] = useState<string>("");
   const [isRecording, setIsRecording] = useState<boolean>(false);
-  const [isAssistantSpeaking, setIsAssistantSpeaking] = useState<boolean>(false);
-  const [userMessage, setUserMessage] = useState<string>("...");
   const [videoName, setVideoName] = useState<string | null>(null);
-  const [useFullscreenVideo] = useState<boolean>(true);
-  const [avatarPosition, setAvatarPosition] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
-  const [isDragging, setIsDragging] = useState<boolean>(false);
-  const [isButtonDisabled, setIsButtonDisabled] = useState<boolean>(false);
 
   // Refs for various components and states
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
-  const openAIClientRef = useRef<RealtimeClient | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const audioChunkQueueRef = useRef<Int16Array[]>([]);
-  const isProcessingChunkRef = useRef<boolean>(false);
-  const avatarRef = useRef<HTMLDivElement>(null);
-  const dragStartRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
+  // Latest microphone level from the capture worklet, drawn by the visualizer
+  const inputLevelRef = useRef<InputLevel>({ rms: 0, peak: 0 });
+  const captureRef = useRef<MicrophoneCapture | null>(null);
   const isSPressedRef = useRef<boolean>(false);
-
-  /**
-   * Initializes the Simli client with the provided configuration.
-   */
-  const initializeSimliClient = useCallback(() => {
-    if (videoRef.current && audioRef.current) {
-      const SimliConfig = {
-        apiKey: process.env.NEXT_PUBLIC_SIMLI_API_KEY,
-        faceID: simli_faceid,
-        handleSilence: true,
-        maxSessionLength: 30600,
-        maxIdleTime: 30600,
-        videoRef: videoRef.current,
-        audioRef: audioRef.current,
-        enableConsoleLogs: true,
-      };
-
-      simliClient.Initialize(SimliConfig as any);
-      console.log("Simli Client initialized");
-    }
-  }, [simli_faceid]);
-
-  /**
-   * Initializes the OpenAI client, sets up event listeners, and connects to the API.
-   */
-  const initializeOpenAIClient = useCallback(async () => {
-    try {
-      console.log("Initializing OpenAI client...");
-      openAIClientRef.current = new RealtimeClient({
-        model: openai_model,
-        apiKey: openai_api_key,
-        dangerouslyAllowAPIKeyInBrowser: true,
-      });
-
-      await openAIClientRef.current.updateSession({
-        instructions: initialPrompt,
-        voice: openai_voice,
-        turn_detection: { type: "server_vad" },
-        input_audio_transcription: { model: "whisper-1" },
-      });
-
-openAIClientRef.current.addTool(
-  {
-    name: "get_product_details",
-    description:
-      "retrieves product details from knowledge base about the product like price, features, and description",
-    parameters: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "This is the question about the product that user needs from knowledge base",
-        },
-        userid: {
-          type: "string",
-          description: "This the user id that this llm will send to knowledge base llm. Send the current user id",
-        },
-      },
-      required: ["query", "userid"],
+  const pressStartRef = useRef<number | null>(null);
+
+  const { handleMouseDown, resetPosition, floatingStyle } = useDraggableAvatar({
+    enabled: Boolean(videoName),
+    compact: embedded,
+  });
+
+  const session = useAvatarSession({
+    ...sessionProps,
+    videoRef,
+    audioRef,
+    sessionConfig: {
+      // Turns are taken manually: the buffer is committed when the button is released
+      turn_detection: null,
+      input_audio_transcription: { model: "whisper-1" },
     },
-  },
-  async ({ query, userid }: { query: string; userid: string }) => {
-    try {
-      const result = await fetch("https://holoagent.app.n8n.cloud/webhook/query", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ query, userid }),
-      });
-
-      if (!result.ok) throw new Error("Failed to fetch product details");
-
-      // Use result.text() instead of result.json() since the response is plain text
-      const textResponse = await result.text();
-
-      // Return the text response in a structured format
-      return {
-        success: true,
-        description: textResponse.trim(),
-      };
-    } catch (err) {
-      console.error("Error fetching product details:", err);
-      return { error: "Failed to retrieve product details" };
-    }
-  }
-);
-
-      openAIClientRef.current.addTool(
-        {
-          name: "play_product_video",
-          description:
-            "Plays a video based on the provided video_url or fetches a video URL from the knowledge base. Supports S3 URLs (.mp4, .mov) and external URLs (YouTube, Vimeo, etc.).",
-          parameters: {
-            type: "object",
-            properties: {
-              query: {
-                type: "string",
-                description:
-                  "The query about the product video to send to the knowledge base if video_url is not provided.",
-              },
-              video_url: {
-                type: "string",
-                description:
-                  "The video URL to play. Can be an S3 URL (.mp4, .mov) or an external URL (YouTube, Vimeo, etc.). If not provided, the video will be fetched using the query.",
-              },
-              userid: {
-                type: "string",
-                description: "The user ID to send to the knowledge base.",
-              },
-            },
-            required: ["query", "userid"],
-            additionalProperties: false,
-          },
-        },
-        async ({ query, video_url, userid }: { query: string; video_url?: string; userid: string }) => {
-          console.log("play_product_video tool called with parameters:", {
-            query,
-            video_url,
-            userid,
-          });
-
-          try {
-            if (video_url) {
-              const isS3Video = video_url.endsWith(".mp4") || video_url.endsWith(".mov");
-              const isExternalVideo = video_url.includes("youtube.com") || video_url.includes("vimeo.com") || video_url.includes("instagram.com");
-              if (isS3Video || isExternalVideo) {
-                console.log("Valid video_url provided, setting videoName:", video_url);
-                setVideoName(video_url);
-                return { message: "Playing video from provided URL", video_url };
-              } else {
-                console.log("Invalid video_url provided:", video_url);
-                throw new Error("Invalid video URL format");
-              }
-            }
-
-            console.log("No valid video_url provided, fetching from API...");
-            const requestPayload = { query, userid: simli_faceid };
-            console.log("API request payload:", requestPayload);
-
-            const result = await fetch("https://holoagent.app.n8n.cloud/webhook/video", {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify(requestPayload),
-            });
-
-            console.log("API response status:", result.status, result.statusText);
-            if (!result.ok) {
-              throw new Error(`Failed to fetch video: ${result.statusText}`);
-            }
-
-            const responseData = await result.json();
-            console.log("Raw API response:", responseData);
-
-            if (
-              responseData &&
-              responseData.response &&
-              typeof responseData.response === "string"
-            ) {
-              const videoUrl = responseData.response;
-              const isS3Video = videoUrl.endsWith(".mp4") || videoUrl.endsWith(".mov");
-              const isExternalVideo = videoUrl.includes("youtube.com") || videoUrl.includes("vimeo.com") || videoUrl.includes("instagram.com");
-              if (isS3Video || isExternalVideo) {
-                console.log("Valid video URL received from API, setting videoName:", videoUrl);
-                setVideoName(videoUrl);
-                setAvatarPosition({ x: 0, y: 0 });
-                return { message: "Video fetched and playing", video_url: videoUrl };
-              } else {
-                console.log("Invalid video URL in response:", responseData);
-                throw new Error("Invalid video URL in response");
-              }
-            } else {
-              console.log("Missing video URL in response:", responseData);
-              throw new Error("Missing video URL in response");
-            }
-          } catch (err) {
-            console.error("Error in play_product_video:", err);
-            setError(`Failed to fetch or play video: ${(err as Error).message}`);
-            return { error: "Failed to fetch or play video", details: (err as Error).message };
-          }
-        }
-      );
-
-      openAIClientRef.current.on("conversation.updated", handleConversationUpdate);
-      openAIClientRef.current.on("conversation.interrupted", interruptConversation);
-      openAIClientRef.current.on("input_audio_buffer.speech_stopped", handleSpeechStopped);
-
-      await openAIClientRef.current.connect();
-      console.log("OpenAI Client connected successfully");
-      openAIClientRef.current?.createResponse();
-
-      setIsAvatarVisible(true);
-    } catch (error) {
-      console.error("Error initializing OpenAI client:", error);
-      setError(`Failed to initialize OpenAI client: ${(error as Error).message}`);
-    }
-  }, [initialPrompt, openai_model, openai_voice, openai_api_key]);
-
-  /**
-   * Handles conversation updates, including user and assistant messages.
-   */
-  const handleConversationUpdate = useCallback((event: any) => {
-    console.log("Conversation updated:", event);
-    const { item, delta } = event;
-
-    if (item.type === "message" && item.role === "assistant") {
-      console.log("Assistant message detected");
-      if (delta && delta.audio) {
-        const downsampledAudio = downsampleAudio(delta.audio, 24000, 16000);
-        audioChunkQueueRef.current.push(downsampledAudio);
-        setIsAssistantSpeaking(true); // Set assistant speaking when audio is received
-        if (!isProcessingChunkRef.current) {
-          processNextAudioChunk();
-        }
-      } else {
-        setIsAssistantSpeaking(false); // Reset when no audio delta
-      }
-    } else if (item.type === "message" && item.role === "user") {
-      setUserMessage(item.content[0].transcript || "...");
-      setIsAssistantSpeaking(false); // Ensure assistant speaking is off during user input
-    }
-  }, []);
-
-  /**
-   * Handles interruptions in the conversation flow.
-   */
-  const interruptConversation = () => {
-    console.warn("User interrupted the conversation");
-    simliClient?.ClearBuffer();
-    openAIClientRef.current?.cancelResponse("");
-    setIsAssistantSpeaking(false);
-  };
-
-  /**
-   * Processes the next audio chunk in the queue.
-   */
-  const processNextAudioChunk = useCallback(() => {
-    if (audioChunkQueueRef.current.length > 0 && !isProcessingChunkRef.current) {
-      isProcessingChunkRef.current = true;
-      const audioChunk = audioChunkQueueRef.current.shift();
-      if (audioChunk) {
-        const chunkDurationMs = (audioChunk.length / 16000) * 1000;
-        const uint8Array = new Uint8Array(audioChunk.buffer);
-        simliClient?.sendAudioData(uint8Array);
-        console.log(
-          "Sent audio chunk to Simli: Duration:",
-          chunkDurationMs.toFixed(2),
-          "ms"
-        );
-        isProcessingChunkRef.current = false;
-        processNextAudioChunk();
-      }
-    } else {
-      setIsAssistantSpeaking(false); // Reset when no more chunks
-    }
-  }, []);
-
-  /**
-   * Handles the end of user speech.
-   */
-  const handleSpeechStopped = useCallback((event: any) => {
-    console.log("Speech stopped event received", event);
-    // Trigger OpenAI response creation after speech stops
-    if (!isRecording) {
-      openAIClientRef.current?.createResponse();
-    }
-  }, [isRecording]);
-
-  /**
-   * Applies a simple low-pass filter to prevent aliasing of audio
-   */
-  const applyLowPassFilter = (data: Int16Array, cutoffFreq: number, sampleRate: number): Int16Array => {
-    const numberOfTaps = 31;
-    const coefficients = new Float32Array(numberOfTaps);
-    const fc = cutoffFreq / sampleRate;
-    const middle = (numberOfTaps - 1) / 2;
-
-    for (let i = 0; i < numberOfTaps; i++) {
-      if (i === middle) {
-        coefficients[i] = 2 * Math.PI * fc;
-      } else {
-        const x = 2 * Math.PI * fc * (i - middle);
-        coefficients[i] = Math.sin(x) / (i - middle);
-      }
-      coefficients[i] *= 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (numberOfTaps - 1));
-    }
-
-    const sum = coefficients.reduce((acc, val) => acc + val, 0);
-    coefficients.forEach((_, i) => (coefficients[i] /= sum));
-
-    const result = new Int16Array(data.length);
-    for (let i = 0; i < data.length; i++) {
-      let sum = 0;
-      for (let j = 0; j < numberOfTaps; j++) {
-        const idx = i - j + middle;
-        if (idx >= 0 && idx < data.length) {
-          sum += coefficients[j] * data[idx];
-        }
-      }
-      result[i] = Math.round(sum);
-    }
-
-    return result;
-  };
-
-  /**
-   * Downsamples audio data from one sample rate to another using linear interpolation
-   */
-  const downsampleAudio = (audioData: Int16Array, inputSampleRate: number, outputSampleRate: number): Int16Array => {
-    if (inputSampleRate === outputSampleRate) {
-      return audioData;
-    }
-
-    if (inputSampleRate < outputSampleRate) {
-      throw new Error("Upsampling is not supported");
-    }
-
-    const filteredData = applyLowPassFilter(audioData, outputSampleRate * 0.45, inputSampleRate);
-
-    const ratio = inputSampleRate / outputSampleRate;
-    const newLength = Math.floor(audioData.length / ratio);
-    const result = new Int16Array(newLength);
-
-    for (let i = 0; i < newLength; i++) {
-      const position = i * ratio;
-      const index = Math.floor(position);
-      const fraction = position - index;
-
-      if (index + 1 < filteredData.length) {
-        const a = filteredData[index];
-        const b = filteredData[index + 1];
-        result[i] = Math.round(a + fraction * (b - a));
-      } else {
-        result[i] = filteredData[index];
+    onPlayVideo: (videoUrl) => {
+      setVideoName(videoUrl);
+      resetPosition();
+    },
+    onEnd: () => {
+      pressStartRef.current = null;
+      stopRecording();
+      setVideoName(null);
+      resetPosition();
+      if (audioContextRef.current) {
+        audioContextRef.current.close();
+        audioContextRef.current = null;
       }
-    }
-
-    return result;
-  };
+    },
+  });
+  const {
+    state,
+    setError,
+    isAssistantSpeaking,
+    openAIClientRef,
+    start: handleStart,
+    stop: handleStop,
+    interruptIfResponding,
+    appendInputAudio,
+  } = session;
+  const isAvatarVisible = state === "live" || state === "reconnecting";
 
   /**
    * Starts audio recording from the user's microphone.
@@ -408,126 +90,119 @@ openAIClientRef.current.addTool(
     }
 
     try {
-      console.log("Starting audio recording...");
-      streamRef.current = await navigator.mediaDevices.getUserMedia({
-        audio: true,
+      log.info("Starting audio recording...");
+      const capture = await startMicrophoneCapture(audioContextRef.current, {
+        onChunk: (pcm) => {
+          if (pressStartRef.current !== null) {
+            appendInputAudio(pcm);
+          }
+        },
+        onLevel: (level) => {
+          inputLevelRef.current = level;
+        },
       });
-      const source = audioContextRef.current.createMediaStreamSource(streamRef.current);
-      processorRef.current = audioContextRef.current.createScriptProcessor(2048, 1, 1);
-
-      processorRef.current.onaudioprocess = (e: AudioProcessingEvent) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        const audioData = new Int16Array(inputData.length);
-
-        for (let i = 0; i < inputData.length; i++) {
-          audioData[i] = Math.max(-32768, Math.min(32767, Math.floor(inputData[i] * 32768)));
-        }
 
-        openAIClientRef.current?.appendInputAudio(audioData);
-      };
-
-      source.connect(processorRef.current);
-      processorRef.current.connect(audioContextRef.current.destination);
+      // The button may have been released while the permission prompt was open
+      if (pressStartRef.current === null) {
+        capture.stop();
+        return;
+      }
+      captureRef.current = capture;
       setIsRecording(true);
-      console.log("Audio recording started");
+      log.info("Audio recording started");
     } catch (err) {
-      console.error("Error accessing microphone:", err);
-      setError("Error accessing microphone. Please check your permissions.");
+      log.error("Error accessing microphone:", err);
+      setError(classifyError(err, "mic_permission"));
     }
-  }, []);
+  }, [appendInputAudio, setError]);
 
   /**
    * Stops audio recording from the user's microphone
    */
   const stopRecording = useCallback(() => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
+    inputLevelRef.current = { rms: 0, peak: 0 };
     setIsRecording(false);
-    console.log("Audio recording stopped");
-    // Trigger response creation after stopping recording
-    openAIClientRef.current?.createResponse();
+    log.info("Audio recording stopped");
   }, []);
 
   /**
-   * Handles the start of the interaction, initializing clients and starting recording.
+   * Runs the recovery action picked from an error notice. The microphone is
+   * requested again on the next press, so granting it needs no extra step.
    */
-  const handleStart = useCallback(async () => {
-    setIsLoading(true);
-    setError("");
-    onStart();
-
-    try {
-      console.log("Starting...");
-      initializeSimliClient();
-      await simliClient?.start();
-      eventListenerSimli();
-    } catch (error) {
-      console.error("Error starting interaction:", error);
-      setError(`Error starting interaction: ${(error as Error).message}`);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [onStart, initializeSimliClient]);
+  const handleErrorAction = useCallback(
+    (action: RecoveryAction) => {
+      setError(null);
+      if (action === "retry") {
+        handleStart();
+      } else if (action === "switch_to_text") {
+        onSwitchToText?.();
+      }
+    },
+    [setError, handleStart, onSwitchToText]
+  );
 
   /**
-   * Handles stopping the interaction, cleaning up resources and resetting states.
+   * Drops any audio appended for the current turn, locally and on the server.
    */
-  const handleStop = useCallback(() => {
-    console.log("Stopping interaction...");
-    setIsLoading(false);
-    setError("");
-    stopRecording();
-    setIsAvatarVisible(false);
-    setVideoName(null);
-    setAvatarPosition({ x: 0, y: 0 });
-    simliClient?.close();
-    openAIClientRef.current?.disconnect();
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    setIsAssistantSpeaking(false);
-    onClose();
-    console.log("Interaction stopped");
-  }, [stopRecording, onClose]);
+  const discardInputAudio = useCallback(() => {
+    const client = openAIClientRef.current;
+    if (!client) return;
+    client.realtime.send("input_audio_buffer.clear");
+    client.inputAudioBuffer = new Int16Array(0);
+  }, [openAIClientRef]);
 
   /**
    * Push-to-talk button handlers
    */
   const handlePushToTalkStart = useCallback(() => {
-    if (!isButtonDisabled && !isRecording) {
-      setIsButtonDisabled(true);
-      startRecording();
-      simliClient?.ClearBuffer();
-      openAIClientRef.current?.cancelResponse("");
-    }
-  }, [startRecording, isButtonDisabled, isRecording]);
+    if (pressStartRef.current !== null || !openAIClientRef.current) return;
+    pressStartRef.current = Date.now();
+
+    // Pressing the button is a barge-in: silence the avatar if it is answering and start a fresh turn
+    interruptIfResponding();
+    discardInputAudio();
+    startRecording();
+  }, [openAIClientRef, interruptIfResponding, startRecording, discardInputAudio]);
 
   const handlePushToTalkEnd = useCallback(() => {
-    setTimeout(() => {
-      stopRecording();
-      setIsButtonDisabled(false);
-    }, 500);
-  }, [stopRecording]);
+    const pressStart = pressStartRef.current;
+    if (pressStart === null) return;
+    pressStartRef.current = null;
+    stopRecording();
+
+    if (Date.now() - pressStart < MIN_PUSH_TO_TALK_MS) {
+      log.info("Push-to-talk press too short, discarding");
+      discardInputAudio();
+      return;
+    }
+
+    // Nothing was captured, e.g. the microphone prompt was still open; a response would answer silence
+    const client = openAIClientRef.current;
+    if (!client?.inputAudioBuffer.length) {
+      log.info("No push-to-talk audio captured, not requesting a response");
+      return;
+    }
+
+    // With turn detection off, createResponse commits the input buffer first
+    client.createResponse();
+  }, [openAIClientRef, stopRecording, discardInputAudio]);
 
   /**
    * Keyboard event handlers for 'S' key
    */
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      if (e.code === "KeyS" && !isSPressedRef.current && isAvatarVisible && !isButtonDisabled) {
+      if (e.code === "KeyS" && !isSPressedRef.current && isAvatarVisible) {
         e.preventDefault(); // Prevent default behavior
         isSPressedRef.current = true;
         handlePushToTalkStart();
       }
     },
-    [handlePushToTalkStart, isAvatarVisible, isButtonDisabled]
+    [handlePushToTalkStart, isAvatarVisible]
   );
 
   const handleKeyUp = useCallback(
@@ -541,68 +216,19 @@ openAIClientRef.current.addTool(
     [handlePushToTalkEnd]
   );
 
-  /**
-   * Simli Event listeners
-   */
-  const eventListenerSimli = useCallback(() => {
-    if (simliClient) {
-      simliClient.on("connected", () => {
-        console.log("SimliClient connected");
-        initializeOpenAIClient();
-      });
-
-      simliClient.on("disconnected", () => {
-        console.log("SimliClient disconnected");
-        openAIClientRef.current?.disconnect();
-        if (audioContextRef.current) {
-          audioContextRef.current.close();
-          audioContextRef.current = null;
-        }
-        setIsAssistantSpeaking(false);
-      });
-    }
-  }, [initializeOpenAIClient]);
-
   /**
    * Handles video close event
    */
   const handleVideoClose = useCallback(() => {
     setVideoName(null);
-    setAvatarPosition({ x: 0, y: 0 });
-  }, []);
-
-  /**
-   * Draggable avatar handlers
-   */
-  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (videoName && useFullscreenVideo) {
-      setIsDragging(true);
-      dragStartRef.current = {
-        x: e.clientX - avatarPosition.x,
-        y: e.clientY - avatarPosition.y,
-      };
-      e.preventDefault();
-    }
-  };
-
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (isDragging) {
-      const newX = e.clientX - dragStartRef.current.x;
-      const newY = e.clientY - dragStartRef.current.y;
-      setAvatarPosition({ x: newX, y: newY });
-    }
-  }, [isDragging]);
-
-  const handleMouseUp = () => {
-    setIsDragging(false);
-  };
+    resetPosition();
+  }, [resetPosition]);
 
   /**
    * Audio Visualizer with Sound Wave Animation
    */
   const AudioVisualizer = () => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const userAnalyserRef = useRef<AnalyserNode | null>(null);
     const assistantAnalyserRef = useRef<AnalyserNode | null>(null);
     const animationFrameRef = useRef<number | null>(null);
     const assistantSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
@@ -631,15 +257,8 @@ openAIClientRef.current.addTool(
       const width = canvas.width;
       const height = canvas.height;
 
-      // Set up analyser for user audio (when recording)
-      if (isRecording && streamRef.current) {
-        userAnalyserRef.current = audioContextRef.current.createAnalyser();
-        userAnalyserRef.current.fftSize = 2048;
-        const source = audioContextRef.current.createMediaStreamSource(streamRef.current);
-        source.connect(userAnalyserRef.current);
-      }
-
-      // Set up analyser for assistant audio (when speaking)
+      // Set up analyser for assistant audio (when speaking). The user's level comes from
+      // the capture worklet, so recording needs no analyser on the main thread
       if (isAssistantSpeaking && audioRef.current) {
         assistantAnalyserRef.current = audioContextRef.current.createAnalyser();
         assistantAnalyserRef.current.fftSize = 2048;
@@ -648,26 +267,24 @@ openAIClientRef.current.addTool(
         assistantAnalyserRef.current.connect(audioContextRef.current.destination); // Ensure audio plays
       }
 
-      const bufferLength = userAnalyserRef.current?.frequencyBinCount || 2048;
+      const bufferLength = 2048;
       const dataArray = new Uint8Array(bufferLength);
 
-      const drawWave = () => {
-        if (!ctx || (!userAnalyserRef.current && !assistantAnalyserRef.current)) return;
-
-        // Choose analyser based on state
-        const analyser = isRecording ? userAnalyserRef.current : assistantAnalyserRef.current;
-        if (!analyser) return;
-
-        // Get time-domain data (waveform)
+      // RMS of the assistant's audio, from its analyser's time-domain data
+      const assistantRms = (analyser: AnalyserNode) => {
         analyser.getByteTimeDomainData(dataArray);
-
-        // Calculate RMS amplitude to determine volume
         let sum = 0;
         for (let i = 0; i < bufferLength; i++) {
           const value = (dataArray[i] - 128) / 128; // Normalize to [-1, 1]
           sum += value * value;
         }
-        const rms = Math.sqrt(sum / bufferLength);
+        return Math.sqrt(sum / bufferLength);
+      };
+
+      const drawWave = () => {
+        const analyser = assistantAnalyserRef.current;
+        const rms = isRecording ? inputLevelRef.current.rms : analyser ? assistantRms(analyser) : null;
+        if (rms === null) return;
         const amplitude = Math.min(rms * 100, 50); // Scale amplitude (max height 50px)
 
         // Clear canvas
@@ -713,9 +330,6 @@ openAIClientRef.current.addTool(
         if (animationFrameRef.current) {
           cancelAnimationFrame(animationFrameRef.current);
         }
-        if (userAnalyserRef.current) {
-          userAnalyserRef.current.disconnect();
-        }
         if (assistantAnalyserRef.current) {
           assistantAnalyserRef.current.disconnect();
         }
@@ -740,17 +354,6 @@ openAIClientRef.current.addTool(
     );
   };
 
-  useEffect(() => {
-    if (isDragging) {
-      window.addEventListener("mousemove", handleMouseMove);
-      window.addEventListener("mouseup", handleMouseUp);
-    }
-    return () => {
-      window.removeEventListener("mousemove", handleMouseMove);
-      window.removeEventListener("mouseup", handleMouseUp);
-    };
-  }, [isDragging, handleMouseMove]);
-
   // Add keyboard event listeners for 'S' key
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown);
@@ -765,55 +368,6 @@ openAIClientRef.current.addTool(
     <>
       <style>
         {`
-          .gradient-button {
-            background: linear-gradient(45deg, #3b82f6, #8b5cf6, #ec4899, #3b82f6);
-            background-size: 200% 200%;
-            animation: gradientAnimation 8s ease infinite;
-          }
-          @keyframes gradientAnimation {
-            0% { background-position: 0% 50%; }
-            50% { background-position: 100% 50%; }
-            100% { background-position: 0% 50%; }
-          }
-          .avatar-slide-in {
-            animation: avatarSlideIn 0.5s ease-out forwards;
-          }
-          .avatar-slide-out {
-            animation: avatarSlideOut 0.5s ease-in forwards;
-          }
-          @keyframes avatarSlideIn {
-            from {
-              transform: translateY(100%) scale(0.7);
-              opacity: 0.8;
-            }
-            to {
-              transform: translateY(0) scale(1);
-              opacity: 1;
-            }
-          }
-          @keyframes avatarSlideOut {
-            from {
-              transform: translateY(0) scale(1);
-              opacity: 1;
-            }
-            to {
-              transform: translateY(100%) scale(0.7);
-              opacity: 0.8;
-            }
-          }
-          .animate-hide {
-            animation: hide 0.3s ease-in forwards;
-          }
-          @keyframes hide {
-            from {
-              opacity: 1;
-              transform: scale(1);
-            }
-            to {
-              opacity: 0;
-              transform: scale(0.8);
-            }
-          }
           .animate-visualizer-show {
             animation: visualizerShow 0.3s ease-out forwards;
           }
@@ -830,119 +384,53 @@ openAIClientRef.current.addTool(
         `}
       </style>
 
-      {/* Video Popup Player */}
-      <VideoPopupPlayer videoName={videoName} onClose={handleVideoClose} />
-
-      {/* Main Content */}
-      <div className="relative h-screen flex flex-col items-center justify-center overflow-hidden">
-        {/* Audio Visualizer */}
-        <AudioVisualizer />
-
-        {/* Avatar Wrapper - Centered or Draggable Bottom-Right */}
-        <div
-          ref={avatarRef}
-          onMouseDown={handleMouseDown}
-          className={cn(
-            "transition-all duration-500 z-50 flex justify-center items-center",
-            showDottedFace ? "h-0 overflow-hidden" : "h-auto",
-            isAvatarVisible && videoName && useFullscreenVideo
-              ? "fixed w-[300px] h-[300px] bg-black/20 rounded-xl overflow-hidden shadow-2xl avatar-slide-in cursor-move"
-              : isAvatarVisible
-              ? "w-full max-w-[800px] relative"
-              : "hidden"
-          )}
-          style={
-            isAvatarVisible && videoName && useFullscreenVideo
-              ? {
-                  left: `calc(100% - 320px + ${avatarPosition.x}px)`,
-                  top: `calc(100% - 320px + ${avatarPosition.y}px)`,
-                }
-              : {}
-          }
-        >
-          <div
-            className={cn(
-              "transition-transform duration-700 ease-in-out",
-              isAvatarVisible && videoName && useFullscreenVideo ? "scale-75 origin-center" : "scale-100"
-            )}
-          >
-            <VideoBox video={videoRef} audio={audioRef} />
-          </div>
-        </div>
-
-        {/* Interaction Buttons and GIF */}
-        <div
-          className={cn(
-            "flex flex-col items-center justify-center z-50 w-full max-w-[800px]",
-            isAvatarVisible ? "animate-hide" : "opacity-100"
-          )}
-        >
-          {!isAvatarVisible ? (
-            <div className="flex flex-col items-center justify-center space-y-8">
-              {/* GIF Animation - Shown when interaction is not started */}
-              <img
-                src="https://faceaqses.s3.us-east-1.amazonaws.com/holoagent/project-images/holoagent1234567.gif"
-                alt="Holoagent Animation"
-                width="350"
-                height="350"
-                className="mx-auto"
-              />
-              {/* Gradient Button */}
+      <AvatarStage
+        session={session}
+        videoRef={videoRef}
+        audioRef={audioRef}
+        videoName={videoName}
+        onVideoClose={handleVideoClose}
+        onAvatarMouseDown={handleMouseDown}
+        floatingStyle={floatingStyle}
+        showDottedFace={showDottedFace}
+        debug={debug}
+        embedded={embedded}
+        theme={theme}
+        onErrorAction={handleErrorAction}
+        hiddenActions={onSwitchToText ? [] : ["switch_to_text"]}
+        controls={
+          <div className="flex flex-col items-center justify-center gap-4 w-full">
+            <div className="flex items-center justify-center gap-4 w-full">
               <button
-                onClick={handleStart}
-                disabled={isLoading}
+                onMouseDown={handlePushToTalkStart}
+                onTouchStart={handlePushToTalkStart}
+                onMouseUp={handlePushToTalkEnd}
+                onTouchEnd={handlePushToTalkEnd}
+                onMouseLeave={handlePushToTalkEnd}
                 className={cn(
-                  "gradient-button inline-flex text-white px-6 py-3 rounded-[100px] transition-all duration-300 hover:rounded-sm hover:shadow-lg hover:scale-105 items-center justify-center",
-                  isLoading ? "opacity-50 cursor-not-allowed" : ""
+                  "mt-4 text-white flex-grow bg-brand-action hover:rounded-sm hover:bg-opacity-70 h-[52px] px-6 rounded-[100px] transition-all duration-300",
+                  isRecording && "bg-[#1B1B1B] rounded-sm hover:bg-opacity-100"
                 )}
               >
-                {isLoading ? (
-                  <IconSparkleLoader className="h-[20px] animate-loader" />
-                ) : (
-                  <span className="font-abc-repro-mono font-bold">Talk To Agent</span>
+                <span className="font-brand-mono font-bold w-[164px]">
+                  {isRecording ? "Release to Stop" : theme.labels.pushToTalk}
+                </span>
+              </button>
+              <button
+                onClick={handleStop}
+                className={cn(
+                  "group w-[52px] h-[52px] flex items-center mt-4 bg-brand-stop text-white justify-center rounded-[100px] backdrop-blur transition-all duration-300 hover:bg-white hover:text-black hover:rounded-sm"
                 )}
+              >
+                <IconExit className="group-hover:invert-0 group-hover:brightness-0 transition-all duration-300" />
               </button>
             </div>
-          ) : (
-            <div className="flex flex-col items-center justify-center gap-4 w-full">
-              <div className="flex items-center justify-center gap-4 w-full">
-                <button
-                  onMouseDown={handlePushToTalkStart}
-                  onTouchStart={handlePushToTalkStart}
-                  onMouseUp={handlePushToTalkEnd}
-                  onTouchEnd={handlePushToTalkEnd}
-                  onMouseLeave={handlePushToTalkEnd}
-                  disabled={isButtonDisabled}
-                  className={cn(
-                    "mt-4 text-white flex-grow bg-blue-500 hover:rounded-sm hover:bg-opacity-70 h-[52px] px-6 rounded-[100px] transition-all duration-300",
-                    isRecording && "bg-[#1B1B1B] rounded-sm hover:bg-opacity-100",
-                    isButtonDisabled && "opacity-50 cursor-not-allowed"
-                  )}
-                >
-                  <span className="font-abc-repro-mono font-bold w-[164px]">
-                    {isRecording ? "Release to Stop" : "Push & hold to talk (or S)"}
-                  </span>
-                </button>
-                <button
-                  onClick={handleStop}
-                  className={cn(
-                    "group w-[52px] h-[52px] flex items-center mt-4 bg-red-500 text-white justify-center rounded-[100px] backdrop-blur transition-all duration-300 hover:bg-white hover:text-black hover:rounded-sm"
-                  )}
-                >
-                  <IconExit className="group-hover:invert-0 group-hover:brightness-0 transition-all duration-300" />
-                </button>
-              </div>
-            </div>
-          )}
-        </div>
-
-        {/* Error Message */}
-        {error && (
-          <div className="text-red-500 text-center mt-4 font-abc-repro-mono absolute bottom-4 z-50">
-            {error}
           </div>
-        )}
-      </div>
+        }
+      >
+        {/* Audio Visualizer */}
+        <AudioVisualizer />
+      </AvatarStage>
     </>
   );
 };
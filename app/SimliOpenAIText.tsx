@@ -0,0 +1,137 @@
+import React, { useCallback, useRef, useState } from "react";
+import AvatarStage from "./Components/AvatarStage";
+import cn from "./utils/TailwindMergeAndClsx";
+import { AvatarSessionProps, useAvatarSession } from "./utils/useAvatarSession";
+import { useDraggableAvatar } from "./utils/useDraggableAvatar";
+import { RecoveryAction } from "./utils/errors";
+import { DEFAULT_THEME, WidgetTheme } from "./utils/theme";
+import IconExit from "@/media/IconExit";
+
+interface SimliOpenAITextProps extends AvatarSessionProps {
+  showDottedFace: boolean;
+  /** Shows the latency and connection overlay, enabled with `?debug=1`. */
+  debug?: boolean;
+  /** Compact layout for the embed iframe. */
+  embedded?: boolean;
+  /** The customer's branding: labels and idle media; colors and fonts come from CSS variables. */
+  theme?: WidgetTheme;
+}
+
+const SimliOpenAIText: React.FC<SimliOpenAITextProps> = ({ showDottedFace, debug, embedded = false, theme = DEFAULT_THEME, ...sessionProps }) => {
+  // State management
+  const [message, setMessage] = useState<string>("");
+  const [videoName, setVideoName] = useState<string | null>(null);
+
+  // Refs for various components and states
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const { handleMouseDown, resetPosition, floatingStyle } = useDraggableAvatar({
+    enabled: Boolean(videoName),
+    compact: embedded,
+  });
+
+  const session = useAvatarSession({
+    ...sessionProps,
+    videoRef,
+    audioRef,
+    sessionConfig: {
+      // No microphone in text mode, so there is no audio to detect turns in
+      turn_detection: null,
+    },
+    onPlayVideo: (videoUrl) => {
+      setVideoName(videoUrl);
+      resetPosition();
+    },
+    onEnd: () => {
+      setMessage("");
+      setVideoName(null);
+      resetPosition();
+    },
+  });
+  const { setError, start: handleStart, stop: handleStop, sendText } = session;
+
+  /**
+   * Sends the typed message to the Realtime session as a user text item.
+   * Any answer still being spoken is cut off first, like a spoken barge-in.
+   */
+  const handleSendMessage = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (sendText(message.trim())) {
+      setMessage("");
+    }
+  }, [message, sendText]);
+
+  /**
+   * Runs the recovery action picked from an error notice.
+   */
+  const handleErrorAction = useCallback(
+    (action: RecoveryAction) => {
+      setError(null);
+      if (action === "retry") {
+        handleStart();
+      }
+    },
+    [setError, handleStart]
+  );
+
+  /**
+   * Handles video close event
+   */
+  const handleVideoClose = useCallback(() => {
+    setVideoName(null);
+    resetPosition();
+  }, [resetPosition]);
+
+  return (
+    <AvatarStage
+      session={session}
+      videoRef={videoRef}
+      audioRef={audioRef}
+      videoName={videoName}
+      onVideoClose={handleVideoClose}
+      onAvatarMouseDown={handleMouseDown}
+      floatingStyle={floatingStyle}
+      showDottedFace={showDottedFace}
+      debug={debug}
+      embedded={embedded}
+      theme={theme}
+      onErrorAction={handleErrorAction}
+      hiddenActions={["switch_to_text"]}
+    >
+      {/* Text Input */}
+      <form
+        onSubmit={handleSendMessage}
+        className="flex items-center justify-center gap-4 w-full max-w-[800px] mt-4 z-50"
+      >
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder={theme.labels.messagePlaceholder}
+          autoFocus
+          className="flex-grow h-[52px] px-6 rounded-[100px] bg-white/10 text-white placeholder-gray-400 font-brand focus:outline-none focus:ring-2 focus:ring-brand-action"
+        />
+        <button
+          type="submit"
+          disabled={!message.trim()}
+          className={cn(
+            "text-white bg-brand-action hover:rounded-sm hover:bg-opacity-70 h-[52px] px-6 rounded-[100px] transition-all duration-300",
+            !message.trim() && "opacity-50 cursor-not-allowed"
+          )}
+        >
+          <span className="font-brand-mono font-bold">{theme.labels.send}</span>
+        </button>
+        <button
+          type="button"
+          onClick={handleStop}
+          className="group w-[52px] h-[52px] flex items-center bg-brand-stop text-white justify-center rounded-[100px] backdrop-blur transition-all duration-300 hover:bg-white hover:text-black hover:rounded-sm"
+        >
+          <IconExit className="group-hover:invert-0 group-hover:brightness-0 transition-all duration-300" />
+        </button>
+      </form>
+    </AvatarStage>
+  );
+};
+
+export default SimliOpenAIText;
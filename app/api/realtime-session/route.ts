@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateCustomer } from "@/app/services/validateCustomer";
+import { RealtimeSessionResponse } from "@/app/services/realtimeSession";
+import { getVerifiedCustomer } from "@/app/utils/sessionToken";
+
+const OPENAI_SESSIONS_URL = "https://api.openai.com/v1/realtime/sessions";
+const DEFAULT_MODEL = "gpt-4o-mini-realtime-preview-2024-12-17";
+
+// Sessions for text-only tokens start with audio input turned off
+const TEXT_ONLY_SESSION = { turn_detection: null, input_audio_transcription: null };
+
+/**
+ * Mints an ephemeral Realtime session for the customer of the session token the
+ * middleware verified. The customer's OpenAI key is looked up and used here only;
+ * the browser receives the short-lived client secret. The client secret lets the
+ * browser update its own session, so for text-only tokens this only sets the
+ * starting config; the relay server is what enforces scopes.
+ */
+export async function POST(req: NextRequest) {
+  const verified = getVerifiedCustomer(req.headers);
+  if (!verified || !verified.scopes.length) {
+    return NextResponse.json<RealtimeSessionResponse>(
+      { status: 0, message: "A session token is required" },
+      { status: 401 }
+    );
+  }
+
+  const canUseVoice = verified.scopes.includes("voice");
+  let apiKey: string | undefined;
+  let model = DEFAULT_MODEL;
+  try {
+    const customer = await validateCustomer(verified.customerId);
+    if (customer.status !== 1 || !customer.data) {
+      return NextResponse.json<RealtimeSessionResponse>(
+        { status: 0, message: "Customer is not allowed to start a session" },
+        { status: 403 }
+      );
+    }
+    // `code` is the error category the widget shows, as in the middleware
+    if (customer.data.face_id !== verified.faceId) {
+      return NextResponse.json<RealtimeSessionResponse>(
+        { status: 0, message: "The session token is not valid for this agent", code: "token_invalid" },
+        { status: 403 }
+      );
+    }
+    if (customer.is_duration_valid === 0) {
+      return NextResponse.json<RealtimeSessionResponse>(
+        { status: 0, message: "The customer's conversation time is used up", code: "limit_reached" },
+        { status: 403 }
+      );
+    }
+    apiKey = customer.data.openai_api_key;
+    model = customer.data.openai_model || DEFAULT_MODEL;
+  } catch (err) {
+    console.error("Failed to validate customer", err);
+    return NextResponse.json<RealtimeSessionResponse>(
+      { status: 0, message: "Failed to validate customer" },
+      { status: 502 }
+    );
+  }
+
+  if (!apiKey) {
+    return NextResponse.json<RealtimeSessionResponse>(
+      { status: 0, message: "No OpenAI key configured for this customer" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const res = await fetch(OPENAI_SESSIONS_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model, ...(!canUseVoice && TEXT_ONLY_SESSION) }),
+      cache: "no-store",
+    });
+
+    if (!res.ok) {
+      console.error("OpenAI session request failed:", res.status, await res.text());
+      // A rejected key is a configuration problem rather than an outage; the widget tells them apart
+      if (res.status === 401) {
+        return NextResponse.json<RealtimeSessionResponse>(
+          { status: 0, message: "OpenAI rejected the customer's API key" },
+          { status: 401 }
+        );
+      }
+      return NextResponse.json<RealtimeSessionResponse>(
+        { status: 0, message: "Failed to create Realtime session" },
+        { status: 502 }
+      );
+    }
+
+    const session = await res.json();
+    return NextResponse.json<RealtimeSessionResponse>({
+      status: 1,
+      message: "Session created",
+      data: {
+        model,
+        client_secret: session.client_secret.value,
+        expires_at: session.client_secret.expires_at,
+      },
+    });
+  } catch (err) {
+    console.error("Error creating Realtime session:", err);
+    return NextResponse.json<RealtimeSessionResponse>(
+      { status: 0, message: "Failed to create Realtime session" },
+      { status: 502 }
+    );
+  }
+}
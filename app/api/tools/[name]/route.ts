@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateCustomer } from "@/app/services/validateCustomer";
+import { ToolWebhookResponse } from "@/app/services/toolWebhook";
+import { DEFAULT_TOOLS } from "@/app/utils/toolRegistry";
+import { getVerifiedCustomer } from "@/app/utils/sessionToken";
+
+/**
+ * Runs an `http_webhook` tool of the customer of the session token the middleware
+ * verified. The webhook's `headers` often carry the customer's credentials, so the
+ * call is made here rather than from the browser.
+ */
+export async function POST(req: NextRequest, { params }: { params: { name: string } }) {
+  const verified = getVerifiedCustomer(req.headers);
+  if (!verified) {
+    return NextResponse.json<ToolWebhookResponse>({ error: "A session token is required" }, { status: 401 });
+  }
+
+  let args: Record<string, unknown>;
+  try {
+    args = await req.json();
+  } catch {
+    return NextResponse.json<ToolWebhookResponse>({ error: "Tool arguments must be JSON" }, { status: 400 });
+  }
+
+  let handler;
+  try {
+    const customer = await validateCustomer(verified.customerId);
+    if (customer.status !== 1 || !customer.data || customer.data.face_id !== verified.faceId) {
+      return NextResponse.json<ToolWebhookResponse>(
+        { error: "Customer is not allowed to run tools" },
+        { status: 403 }
+      );
+    }
+    const tools = customer.data.tools?.length ? customer.data.tools : DEFAULT_TOOLS;
+    handler = tools.find((tool) => tool.name === params.name)?.handler;
+  } catch (err) {
+    console.error("Failed to validate customer", err);
+    return NextResponse.json<ToolWebhookResponse>({ error: "Failed to validate customer" }, { status: 502 });
+  }
+
+  if (handler?.type !== "http_webhook") {
+    return NextResponse.json<ToolWebhookResponse>({ error: `Unknown tool ${params.name}` }, { status: 404 });
+  }
+
+  try {
+    const res = await fetch(handler.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...handler.headers,
+      },
+      // The face is the tool's user id, whatever the model passed
+      body: JSON.stringify({ ...args, userid: verified.faceId }),
+      cache: "no-store",
+    });
+    if (!res.ok) {
+      return NextResponse.json<ToolWebhookResponse>(
+        { error: `Webhook responded with ${res.status}` },
+        { status: 502 }
+      );
+    }
+
+    // Webhooks may answer with JSON or plain text
+    if (res.headers.get("content-type")?.includes("application/json")) {
+      return NextResponse.json<ToolWebhookResponse>({ success: true, data: await res.json() });
+    }
+    const text = await res.text();
+    return NextResponse.json<ToolWebhookResponse>({ success: true, description: text.trim() });
+  } catch (err) {
+    console.error(`Webhook of ${params.name} failed:`, err);
+    return NextResponse.json<ToolWebhookResponse>({ error: "Webhook request failed" }, { status: 502 });
+  }
+}
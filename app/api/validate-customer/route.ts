@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  validateCustomer,
+  PublicValidationResponse,
+  ToolDefinition,
+} from "@/app/services/validateCustomer";
+import { getVerifiedCustomer } from "@/app/utils/sessionToken";
+
+// Webhook headers carry the customer's credentials; /api/tools adds them server-side
+const withoutWebhookHeaders = (tool: ToolDefinition): ToolDefinition => {
+  if (tool.handler.type !== "http_webhook") return tool;
+  const { headers: _secret, ...handler } = tool.handler;
+  return { ...tool, handler };
+};
+
+/**
+ * Browser-facing customer lookup for the session token the middleware verified.
+ * Mirrors the backend response minus the OpenAI key and webhook headers, plus
+ * the token's scopes.
+ */
+export async function GET(req: NextRequest) {
+  const verified = getVerifiedCustomer(req.headers);
+  if (!verified) {
+    return NextResponse.json(
+      { status: 0, message: "A session token is required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const resp = await validateCustomer(verified.customerId);
+    // A token is minted for one agent; it can't be used with another face of the customer
+    if (resp.data && resp.data.face_id !== verified.faceId) {
+      return NextResponse.json(
+        { status: 0, message: "The session token is not valid for this agent", code: "token_invalid" },
+        { status: 401 }
+      );
+    }
+
+    const body: PublicValidationResponse = { ...resp, data: undefined };
+    if (resp.data) {
+      const { openai_api_key: _secret, tools, ...publicData } = resp.data;
+      body.data = { ...publicData, tools: tools?.map(withoutWebhookHeaders), scopes: verified.scopes };
+    }
+    return NextResponse.json(body);
+  } catch (err) {
+    console.error("Failed to validate customer", err);
+    return NextResponse.json(
+      { status: 0, message: "Failed to validate customer" },
+      { status: 502 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import localFont from 'next/font/local'
+import { Inter, Lora, Roboto } from 'next/font/google'
 
 // Regular font 
 export const abcRepro = localFont({
@@ -68,3 +69,24 @@ export const abcReproMono = localFont({
   ],
   variable: '--font-abc-repro-mono'
 })
+
+// Fonts a customer theme can pick instead of ABC Repro (see app/utils/theme.ts).
+// Only the one in use is downloaded.
+export const inter = Inter({
+  subsets: ['latin'],
+  variable: '--font-inter',
+})
+
+export const roboto = Roboto({
+  subsets: ['latin'],
+  weight: ['400', '700'],
+  variable: '--font-roboto',
+  preload: false,
+})
+
+export const lora = Lora({
+  subsets: ['latin'],
+  weight: ['400', '700'],
+  variable: '--font-lora',
+  preload: false,
+})
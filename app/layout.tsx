@@ -1,11 +1,7 @@
 import type { Metadata } from "next";
-import { Inter } from "next/font/google";
-import { abcRepro, abcReproMono } from './fonts/fonts';
+import { abcRepro, abcReproMono, inter, lora, roboto } from './fonts/fonts';
 import "./globals.css";
 
-
-const inter = Inter({ subsets: ["latin"] });
-
 export const metadata: Metadata = {
   title: "HoloAgent",
   description: "HoloAgent",
@@ -17,7 +13,10 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en" className={`${abcReproMono.variable} ${abcRepro.variable}`}>
+    <html
+      lang="en"
+      className={`${abcReproMono.variable} ${abcRepro.variable} ${inter.variable} ${roboto.variable} ${lora.variable}`}
+    >
       <body className={inter.className}>{children}</body>
     </html>
   );
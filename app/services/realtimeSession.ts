@@ -0,0 +1,28 @@
+import axios from "axios";
+
+export interface RealtimeSessionResponse {
+  status: number;
+  message: string;
+  /** Why the session was refused, as an error category; see app/utils/errors.ts. */
+  code?: "token_invalid" | "limit_reached";
+  data?: {
+    model: string;
+    client_secret: string;
+    expires_at: number;
+  };
+}
+
+/**
+ * Asks our route handler to mint a short-lived Realtime session for the customer.
+ * The returned client secret is the only OpenAI credential the browser ever sees.
+ */
+export const createRealtimeSession = async (
+  sessionToken: string
+): Promise<RealtimeSessionResponse> => {
+  const res = await axios.post<RealtimeSessionResponse>(
+    "/api/realtime-session",
+    {},
+    { headers: { Authorization: `Bearer ${sessionToken}` } }
+  );
+  return res.data;
+};
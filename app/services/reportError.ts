@@ -0,0 +1,34 @@
+import axios from "axios";
+import { ErrorCategory } from "../utils/errors";
+
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "https://holoagent.ai/api";
+
+export interface SessionErrorReport {
+  face_id: string;
+  session_token: string;
+  session_id?: string;
+  category: ErrorCategory;
+  detail?: string;
+  interaction_mode: string;
+  occurred_at: number;
+}
+
+export interface SessionErrorResponse {
+  status: number;
+  message: string;
+}
+
+/**
+ * Tells the backend a session failed, so customers with a broken setup
+ * (bad key, missing face) can be reached before they notice.
+ */
+export const reportSessionError = async (
+  report: SessionErrorReport
+): Promise<SessionErrorResponse> => {
+  const res = await axios.post<SessionErrorResponse>(
+    `${API_BASE_URL}/simli/session-error`,
+    report
+  );
+  return res.data;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { ToolCallRecord, TranscriptTurn } from "../Components/types";
+import { fitTranscriptPayload, SessionTranscriptPayload } from "./sessionTranscript";
+
+const turn = (i: number, text = `Turn number ${i} of a long conversation`): TranscriptTurn => ({
+  id: `item_${i}`,
+  role: i % 2 ? "assistant" : "user",
+  text,
+  timestamp: 1700000000000 + i,
+  isComplete: true,
+});
+
+const toolCall = (result: unknown): ToolCallRecord => ({
+  id: "call_1",
+  name: "get_product_details",
+  arguments: { query: "price" },
+  result,
+  startedAt: 1700000000000,
+  endedAt: 1700000000500,
+});
+
+const payload = (turns: TranscriptTurn[], toolCalls: ToolCallRecord[] = []): SessionTranscriptPayload => ({
+  face_id: "face",
+  session_token: "a.b.c",
+  started_at: 1700000000000,
+  ended_at: 1700000060000,
+  turns,
+  tool_calls: toolCalls,
+});
+
+const size = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+describe("fitTranscriptPayload", () => {
+  it("leaves a payload that fits untouched", () => {
+    const small = payload([turn(0), turn(1)], [toolCall({ price: 10 })]);
+    expect(fitTranscriptPayload(small, 10_000)).toBe(small);
+  });
+
+  it("cuts long tool results before dropping turns", () => {
+    const fitted = fitTranscriptPayload(payload([turn(0)], [toolCall("x".repeat(20_000))]), 5_000);
+    expect(fitted.turns).toHaveLength(1);
+    expect(String(fitted.tool_calls[0].result).length).toBeLessThan(1_100);
+  });
+
+  it("drops the oldest turns until it fits and keeps the newest", () => {
+    const turns = Array.from({ length: 2_000 }, (_, i) => turn(i));
+    const fitted = fitTranscriptPayload(payload(turns), 20_000);
+
+    expect(size(fitted)).toBeLessThanOrEqual(20_000);
+    expect(fitted.turns.at(-1)).toEqual(turns.at(-1));
+    expect(fitted.dropped_turns).toBe(turns.length - fitted.turns.length);
+    // Dropping is tight: one more turn would not have fitted
+    expect(size({ ...fitted, turns: turns.slice(fitted.dropped_turns! - 1) })).toBeGreaterThan(20_000);
+  });
+
+  it("fits even when a single turn is over the limit", () => {
+    const fitted = fitTranscriptPayload(payload([turn(0, "y".repeat(50_000))]), 10_000);
+    expect(size(fitted)).toBeLessThanOrEqual(10_000);
+    expect(fitted.turns).toHaveLength(0);
+  });
+});
@@ -0,0 +1,95 @@
+import axios from "axios";
+import { ToolCallRecord, TranscriptTurn } from "../Components/types";
+
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "https://holoagent.ai/api";
+
+export interface SessionTranscriptPayload {
+  face_id: string;
+  /** Identifies the customer to the backend that minted it. */
+  session_token: string;
+  started_at: number;
+  ended_at: number;
+  turns: TranscriptTurn[];
+  tool_calls: ToolCallRecord[];
+  /** Oldest turns left out to fit a page-unload upload into the browser's size limit. */
+  dropped_turns?: number;
+}
+
+export interface SessionTranscriptResponse {
+  status: number;
+  message: string;
+}
+
+export const uploadSessionTranscript = async (
+  payload: SessionTranscriptPayload
+): Promise<SessionTranscriptResponse> => {
+  const res = await axios.post<SessionTranscriptResponse>(
+    `${API_BASE_URL}/simli/session-transcript`,
+    payload
+  );
+  return res.data;
+};
+
+// Browsers refuse beacons and keepalive requests past 64 KB in flight per page. The
+// final usage report goes out first, so the transcript keeps some room for it.
+const MAX_BEACON_BYTES = 60_000;
+// Tool results are what usually makes a transcript large
+const MAX_BEACON_TOOL_RESULT_LENGTH = 1000;
+
+const byteLength = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+const trimToolResults = (toolCalls: ToolCallRecord[]): ToolCallRecord[] =>
+  toolCalls.map((call) => {
+    const result = JSON.stringify(call.result) ?? "";
+    return result.length > MAX_BEACON_TOOL_RESULT_LENGTH
+      ? { ...call, result: `${result.slice(0, MAX_BEACON_TOOL_RESULT_LENGTH)}…` }
+      : call;
+  });
+
+/**
+ * Shrinks a transcript upload to `maxBytes` of JSON: tool results are cut short
+ * first, then the oldest turns are dropped, so the end of the conversation survives.
+ */
+export const fitTranscriptPayload = (
+  payload: SessionTranscriptPayload,
+  maxBytes = MAX_BEACON_BYTES
+): SessionTranscriptPayload => {
+  if (byteLength(payload) <= maxBytes) return payload;
+
+  const trimmed = { ...payload, tool_calls: trimToolResults(payload.tool_calls) };
+  let size = byteLength(trimmed);
+  let dropped = 0;
+  // Each turn takes its own JSON plus a separating comma
+  while (size > maxBytes && dropped < trimmed.turns.length) {
+    size -= byteLength(trimmed.turns[dropped]) + 1;
+    dropped++;
+  }
+  let fitted = { ...trimmed, turns: trimmed.turns.slice(dropped), dropped_turns: dropped };
+  // The estimate leaves out the new field; settle any difference exactly
+  while (byteLength(fitted) > maxBytes && fitted.turns.length) {
+    dropped++;
+    fitted = { ...fitted, turns: fitted.turns.slice(1), dropped_turns: dropped };
+  }
+  // Only tool calls are left to give up
+  return byteLength(fitted) <= maxBytes ? fitted : { ...fitted, tool_calls: [] };
+};
+
+/**
+ * Fire-and-forget upload for page unload, when an XHR would be cancelled. The
+ * transcript is shrunk to fit the browser's beacon limit; should the beacon still
+ * be refused, a keepalive fetch is tried. Returns false when no beacon was queued.
+ */
+export const beaconSessionTranscript = (payload: SessionTranscriptPayload): boolean => {
+  const url = `${API_BASE_URL}/simli/session-transcript`;
+  const body = JSON.stringify(fitTranscriptPayload(payload));
+  if (navigator.sendBeacon(url, new Blob([body], { type: "application/json" }))) return true;
+
+  fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  }).catch(() => {});
+  return false;
+};
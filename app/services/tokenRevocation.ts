@@ -0,0 +1,23 @@
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "https://holoagent.ai/api";
+
+export interface TokenStatusResponse {
+  status: number;
+  message: string;
+  is_revoked: 0 | 1;
+}
+
+/**
+ * Asks the HoloAgent backend whether a session token was revoked before it
+ * expired. Uses fetch rather than axios so it can run in the edge middleware.
+ */
+export const isTokenRevoked = async (jti: string): Promise<boolean> => {
+  const url = new URL(`${API_BASE_URL}/simli/token-status`);
+  url.searchParams.set("jti", jti);
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error(`Token status lookup failed with ${res.status}`);
+  }
+  const body = (await res.json()) as TokenStatusResponse;
+  return body.is_revoked === 1;
+};
@@ -0,0 +1,27 @@
+import axios from "axios";
+
+/**
+ * What an `http_webhook` tool answers the model: the webhook's JSON as `data`,
+ * its text as `description`, or an `error`.
+ */
+export type ToolWebhookResponse =
+  | { success: true; data: unknown }
+  | { success: true; description: string }
+  | { error: string };
+
+/**
+ * Runs an `http_webhook` tool through our route handler, which adds the
+ * webhook's headers server-side.
+ */
+export const runToolWebhook = async (
+  sessionToken: string,
+  name: string,
+  args: Record<string, unknown>
+): Promise<ToolWebhookResponse> => {
+  const res = await axios.post<ToolWebhookResponse>(
+    `/api/tools/${encodeURIComponent(name)}`,
+    args,
+    { headers: { Authorization: `Bearer ${sessionToken}` } }
+  );
+  return res.data;
+};
@@ -1,8 +1,16 @@
 import axios from "axios";
+import { SessionTokenUsage } from "../utils/tokenUsage";
 
 const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_URL || "https://holoagent.ai/api";
 
+/**
+ * How often a live session reports usage. The backend treats a session whose
+ * last report was not final and is older than two intervals as abandoned and
+ * closes it at its last heartbeat.
+ */
+export const DURATION_HEARTBEAT_INTERVAL_MS = 30000;
+
 export interface UpdateDurationResponse {
   status: number;
   message: string;
@@ -12,14 +20,42 @@ export interface UpdateDurationResponse {
   };
 }
 
+export interface DurationReport {
+  /** Identifies the session across its heartbeats. */
+  session_id?: string;
+  /** Set on the last report of a session, when it was closed cleanly. */
+  is_final?: boolean;
+  /** Realtime token totals of the whole session so far, not just since the last report. */
+  token_usage?: SessionTokenUsage;
+}
+
+/**
+ * Reports usage for the customer of the session token; the backend that minted
+ * the token reads the customer from it.
+ */
 export const updateDuration = async (
   face_id: string,
-  customer_id: string,
-  added_seconds: number
+  session_token: string,
+  added_seconds: number,
+  report: DurationReport = {}
 ): Promise<UpdateDurationResponse> => {
   const res = await axios.post<UpdateDurationResponse>(
     `${API_BASE_URL}/simli/update-duration`,
-    { face_id, customer_id, added_seconds }
+    { face_id, session_token, added_seconds, ...report }
   );
   return res.data;
 };
+
+/**
+ * Fire-and-forget final report for page unload, when an XHR would be cancelled.
+ */
+export const beaconDuration = (
+  face_id: string,
+  session_token: string,
+  added_seconds: number,
+  report: DurationReport = {}
+): boolean => {
+  const payload = JSON.stringify({ face_id, session_token, added_seconds, ...report });
+  const blob = new Blob([payload], { type: "application/json" });
+  return navigator.sendBeacon(`${API_BASE_URL}/simli/update-duration`, blob);
+};
@@ -1,8 +1,59 @@
 import axios from "axios";
+import { TokenScope } from "../utils/sessionToken";
 
 const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_URL || "https://holoagent.ai/api";
 
+/**
+ * How a customer-defined tool is executed when the model calls it.
+ * - `http_webhook`: POSTs the arguments (plus the face id as `userid`) to `url`,
+ *   through the `/api/tools` route so `headers` (e.g. API keys) stay on the server.
+ * - `ui_action`: drives the widget itself, e.g. opening the video player.
+ * - `static`: answers with a fixed response.
+ */
+export type ToolHandlerConfig =
+  | { type: "http_webhook"; url: string; headers?: Record<string, string> }
+  | { type: "ui_action"; action: "play_video"; lookup_url?: string }
+  | { type: "static"; response: unknown };
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON schema of the tool arguments. */
+  parameters: Record<string, unknown>;
+  handler: ToolHandlerConfig;
+}
+
+/**
+ * A customer's branding. Every field is optional; unset ones keep the HoloAgent look.
+ */
+export interface CustomerTheme {
+  /** Hex colors (`#3b82f6` or `#38f`). */
+  colors?: {
+    /** Stops of the animated start button gradient, two or three colors. */
+    gradient?: string[];
+    /** Push-to-talk and send buttons. */
+    action?: string;
+    /** Stop buttons. */
+    stop?: string;
+    background?: string;
+    text?: string;
+  };
+  labels?: {
+    start?: string;
+    stop?: string;
+    send?: string;
+    message_placeholder?: string;
+    push_to_talk?: string;
+  };
+  /** Image or video shown before the conversation starts; videos loop muted. */
+  idle_media_url?: string;
+  idle_media_type?: "image" | "video";
+  font?: "abc-repro" | "inter" | "roboto" | "lora" | "system";
+  avatar_frame?: "rounded" | "square" | "circle";
+  background_image_url?: string;
+}
+
 export interface ValidationResponse {
   status: number;
   message: string;
@@ -14,9 +65,40 @@ export interface ValidationResponse {
     initialPrompt?: string;
     openai_api_key?: string;
     logo_url?: string;
+    tools?: ToolDefinition[];
+    /** Conversation seconds included in the customer's plan. */
+    allowed_duration?: number;
+    /** Conversation seconds used so far, as in `UpdateDurationResponse`. */
+    total_duration?: number;
+    /** Seconds before the limit at which the avatar wraps up and the countdown starts. */
+    wrap_up_seconds?: number;
+    /** Line the avatar says when the countdown starts. */
+    wrap_up_message?: string;
+    /** Where the limit modal sends the customer to top up. */
+    wallet_url?: string;
+    /** Realtime tokens a single session may use before it is wrapped up. */
+    max_session_tokens?: number;
+    /**
+     * Sites that may embed the widget, as origins (`https://shop.example.com`,
+     * `https://*.example.com`). Missing or empty allows any site.
+     */
+    allowed_origins?: string[];
+    theme?: CustomerTheme;
   };
 }
 
+/**
+ * Customer config as exposed to the browser. The OpenAI key and webhook headers
+ * never leave the server; `scopes` come from the session token.
+ */
+export interface PublicValidationResponse extends Omit<ValidationResponse, "data"> {
+  data?: Omit<NonNullable<ValidationResponse["data"]>, "openai_api_key"> & { scopes: TokenScope[] };
+}
+
+/**
+ * Looks up the customer directly against the HoloAgent backend.
+ * Server-side only: the response carries the customer's OpenAI key.
+ */
 export const validateCustomer = async (
   customerId: string
 ): Promise<ValidationResponse> => {
@@ -26,3 +108,34 @@ export const validateCustomer = async (
   );
   return response.data;
 };
+
+/**
+ * Looks up the customer of a session token through our own route handler,
+ * which strips secrets.
+ */
+export const fetchCustomerConfig = async (
+  sessionToken: string
+): Promise<PublicValidationResponse> => {
+  const response = await axios.get<PublicValidationResponse>(
+    "/api/validate-customer",
+    { headers: { Authorization: `Bearer ${sessionToken}` } }
+  );
+  return response.data;
+};
+
+/**
+ * Looks up only the origins a customer allows to embed the widget. Uses fetch
+ * rather than axios so it can run in the edge middleware.
+ */
+export const fetchAllowedOrigins = async (
+  customerId: string
+): Promise<string[] | undefined> => {
+  const url = new URL(`${API_BASE_URL}/simli/validate-customer`);
+  url.searchParams.set("customer_id", customerId);
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error(`Customer lookup failed with ${res.status}`);
+  }
+  const body = (await res.json()) as ValidationResponse;
+  return body.data?.allowed_origins;
+};
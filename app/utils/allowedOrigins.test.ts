@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { frameAncestorsDirective, isOriginAllowed } from "./allowedOrigins";
+
+describe("isOriginAllowed", () => {
+  it("matches an exact origin, ignoring case and a trailing slash in the list", () => {
+    expect(isOriginAllowed("https://shop.example.com", ["HTTPS://Shop.Example.com/"])).toBe(true);
+    expect(isOriginAllowed("https://other.example.com", ["https://shop.example.com"])).toBe(false);
+  });
+
+  it("requires the scheme to match", () => {
+    expect(isOriginAllowed("http://shop.example.com", ["https://shop.example.com"])).toBe(false);
+  });
+
+  it("matches subdomains only for a wildcard entry", () => {
+    const allowed = ["https://*.example.com"];
+    expect(isOriginAllowed("https://shop.example.com", allowed)).toBe(true);
+    expect(isOriginAllowed("https://a.b.example.com", allowed)).toBe(true);
+    expect(isOriginAllowed("https://example.com", allowed)).toBe(false);
+    expect(isOriginAllowed("https://badexample.com", allowed)).toBe(false);
+  });
+
+  it("requires the port to match", () => {
+    expect(isOriginAllowed("https://shop.example.com:8443", ["https://shop.example.com:8443"])).toBe(true);
+    expect(isOriginAllowed("https://shop.example.com:8443", ["https://shop.example.com"])).toBe(false);
+    expect(isOriginAllowed("https://shop.example.com", ["https://shop.example.com:8443"])).toBe(false);
+    expect(isOriginAllowed("https://a.example.com:8443", ["https://*.example.com:8443"])).toBe(true);
+  });
+
+  it("ignores malformed entries and origins", () => {
+    const allowed = ["*", "https://*", "shop.example.com", "https://shop.example.com/path", "https://sh op.com"];
+    expect(isOriginAllowed("https://shop.example.com", allowed)).toBe(false);
+    expect(isOriginAllowed("not an origin", ["https://shop.example.com"])).toBe(false);
+  });
+});
+
+describe("frameAncestorsDirective", () => {
+  it("leaves embedding unrestricted without allowed origins", () => {
+    expect(frameAncestorsDirective(undefined)).toBeNull();
+    expect(frameAncestorsDirective([])).toBeNull();
+  });
+
+  it("lists the widget's own origin and the well-formed entries", () => {
+    expect(frameAncestorsDirective(["https://Shop.example.com/", "https://*.example.org:8443", "javascript:alert(1)"])).toBe(
+      "frame-ancestors 'self' https://shop.example.com https://*.example.org:8443"
+    );
+  });
+
+  it("keeps only 'self' when every entry is malformed", () => {
+    expect(frameAncestorsDirective(["*", "example.com; script-src *"])).toBe("frame-ancestors 'self'");
+  });
+});
@@ -0,0 +1,39 @@
+// An origin, optionally with a leading wildcard label: https://shop.example.com, https://*.example.com:8443
+const ORIGIN_PATTERN = /^(https?):\/\/(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*)(:\d{1,5})?$/;
+
+const normalize = (origin: string) => origin.trim().replace(/\/+$/, "").toLowerCase();
+
+/**
+ * The entries of a customer's `allowed_origins` that are well-formed origins.
+ * Anything else is dropped, so a typo can't widen the list or end up in a header.
+ */
+export const validAllowedOrigins = (allowedOrigins: string[] = []): string[] =>
+  allowedOrigins.map(normalize).filter((origin) => ORIGIN_PATTERN.test(origin));
+
+/**
+ * Whether `origin` matches one of the allowed origins. A `*.` entry matches
+ * subdomains only, the same as in a CSP source list.
+ */
+export const isOriginAllowed = (origin: string, allowedOrigins: string[]): boolean => {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+
+  return validAllowedOrigins(allowedOrigins).some((allowed) => {
+    const [, scheme, wildcard, host, port = ""] = ORIGIN_PATTERN.exec(allowed)!;
+    if (url.protocol !== `${scheme}:` || (url.port ? `:${url.port}` : "") !== port) return false;
+    return wildcard ? url.hostname.endsWith(`.${host}`) : url.hostname === host;
+  });
+};
+
+/**
+ * `frame-ancestors` directive for a customer, or null when they haven't restricted
+ * embedding (no `allowed_origins`). The widget's own origin may always frame it.
+ */
+export const frameAncestorsDirective = (allowedOrigins: string[] | undefined): string | null => {
+  if (!allowedOrigins?.length) return null;
+  return ["frame-ancestors 'self'", ...validAllowedOrigins(allowedOrigins)].join(" ");
+};
@@ -0,0 +1,210 @@
+import { PlaybackPosition, createPlaybackTracker } from "./playbackTracker";
+
+export interface AudioSchedulerOptions {
+  sampleRate: number;
+  /** Hands the next frame of PCM16 audio to the avatar. */
+  send: (pcm: Int16Array) => void;
+  /** How far ahead of playback audio is sent to the avatar. */
+  leadMs?: number;
+  /** Audio collected before playback (re)starts, to ride out network jitter. */
+  jitterBufferMs?: number;
+  /** Size of the frames handed to `send`. */
+  frameMs?: number;
+  /** Fires when the avatar starts or stops voicing scheduled audio. */
+  onSpeakingChange?: (isSpeaking: boolean) => void;
+}
+
+export interface AudioSchedulerStats {
+  /** Received audio that has not been sent to the avatar yet. */
+  queuedMs: number;
+  /** Sent audio the avatar has not played yet. */
+  bufferedMs: number;
+  /** Audio played since the scheduler was created or last cleared. */
+  playedMs: number;
+  /** How often playback ran dry in the middle of a response. */
+  underruns: number;
+}
+
+export interface ScheduledPosition extends PlaybackPosition {
+  /** Milliseconds of the item's audio received so far, sent or not. */
+  receivedMs: number;
+}
+
+export interface AudioScheduler {
+  /** Queues audio received for an assistant item. */
+  enqueue: (itemId: string, pcm: Int16Array) => void;
+  /** Marks the end of a response so its tail plays without waiting for the jitter buffer. */
+  flush: () => void;
+  /** Where playback currently is, or null when there is no audio for any item. */
+  getPosition: () => ScheduledPosition | null;
+  getStats: () => AudioSchedulerStats;
+  /** Whether any audio is still queued or playing. */
+  hasPendingAudio: () => boolean;
+  /** Drops all queued audio and forgets playback, e.g. on barge-in or stop. */
+  clear: () => void;
+}
+
+interface QueuedChunk {
+  itemId: string;
+  pcm: Int16Array;
+  offset: number;
+}
+
+const DEFAULT_LEAD_MS = Number(process.env.NEXT_PUBLIC_SIMLI_AUDIO_LEAD_MS) || 240;
+const DEFAULT_JITTER_BUFFER_MS = 120;
+const DEFAULT_FRAME_MS = 20;
+// Hidden tabs throttle timers to about once a second, so send further ahead there
+const HIDDEN_TAB_LEAD_MS = 1500;
+
+/**
+ * Sends assistant audio to the avatar at real-time pace instead of in bursts.
+ * Audio is held until `jitterBufferMs` has arrived (or the response is flushed),
+ * then fed in `frameMs` frames so the avatar is never more than `leadMs` ahead of
+ * what it is playing. Keeping the lead small is what makes barge-in instant: the
+ * avatar only ever has a fraction of a second of audio that needs to be cleared.
+ */
+export const createAudioScheduler = ({
+  sampleRate,
+  send,
+  leadMs = DEFAULT_LEAD_MS,
+  jitterBufferMs = DEFAULT_JITTER_BUFFER_MS,
+  frameMs = DEFAULT_FRAME_MS,
+  onSpeakingChange,
+}: AudioSchedulerOptions): AudioScheduler => {
+  const tracker = createPlaybackTracker(sampleRate);
+  const frameSamples = Math.round((sampleRate * frameMs) / 1000);
+  const toMs = (samples: number) => (samples / sampleRate) * 1000;
+
+  let queue: QueuedChunk[] = [];
+  let queuedSamples = 0;
+  let sentSamples = 0;
+  let underruns = 0;
+  // Per item: samples received and samples sent to the avatar
+  const itemSamples = new Map<string, { received: number; sent: number }>();
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let isBuffering = true;
+  let isFlushed = false;
+  let isSpeaking = false;
+
+  const setSpeaking = (value: boolean) => {
+    if (isSpeaking === value) return;
+    isSpeaking = value;
+    onSpeakingChange?.(value);
+  };
+
+  const stopTimer = () => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const sendNextFrame = () => {
+    const chunk = queue[0];
+    const end = Math.min(chunk.offset + frameSamples, chunk.pcm.length);
+    const frame = chunk.pcm.slice(chunk.offset, end);
+    chunk.offset = end;
+    if (chunk.offset >= chunk.pcm.length) queue.shift();
+
+    queuedSamples -= frame.length;
+    sentSamples += frame.length;
+    const counts = itemSamples.get(chunk.itemId);
+    if (counts) counts.sent += frame.length;
+
+    send(frame);
+    tracker.onAudioSent(chunk.itemId, frame.length);
+  };
+
+  const tick = () => {
+    if (isBuffering) {
+      if (queue.length === 0 || (!isFlushed && toMs(queuedSamples) < jitterBufferMs)) return;
+      isBuffering = false;
+    }
+
+    const hidden = typeof document !== "undefined" && document.hidden;
+    const lead = hidden ? Math.max(leadMs, HIDDEN_TAB_LEAD_MS) : leadMs;
+    let aheadMs = tracker.getBufferedMs();
+    while (queue.length > 0 && aheadMs < lead) {
+      sendNextFrame();
+      aheadMs = tracker.getBufferedMs();
+      setSpeaking(true);
+    }
+
+    if (queue.length === 0 && tracker.getBufferedMs() === 0) {
+      // Ran dry before the response was flushed: rebuild the jitter buffer first
+      if (!isFlushed) underruns += 1;
+      isBuffering = true;
+      isFlushed = false;
+      setSpeaking(false);
+      stopTimer();
+    }
+  };
+
+  const startTimer = () => {
+    if (timer === null) timer = setInterval(tick, frameMs);
+  };
+
+  const enqueue = (itemId: string, pcm: Int16Array) => {
+    if (pcm.length === 0) return;
+    queue.push({ itemId, pcm, offset: 0 });
+    queuedSamples += pcm.length;
+    const counts = itemSamples.get(itemId) ?? { received: 0, sent: 0 };
+    counts.received += pcm.length;
+    itemSamples.set(itemId, counts);
+    startTimer();
+    tick();
+  };
+
+  const flush = () => {
+    if (queue.length === 0 && !isSpeaking) return;
+    isFlushed = true;
+    tick();
+  };
+
+  const getPosition = (): ScheduledPosition | null => {
+    const playing = tracker.getPosition();
+    if (playing) {
+      const counts = itemSamples.get(playing.itemId);
+      return { ...playing, receivedMs: toMs(counts?.received ?? 0) };
+    }
+
+    // Nothing audible right now, but the next item may already be waiting
+    const next = queue[0];
+    if (!next) return null;
+    const counts = itemSamples.get(next.itemId) ?? { received: 0, sent: 0 };
+    return {
+      itemId: next.itemId,
+      playedMs: toMs(counts.sent),
+      sentMs: toMs(counts.sent),
+      receivedMs: toMs(counts.received),
+    };
+  };
+
+  const getStats = (): AudioSchedulerStats => {
+    const bufferedMs = tracker.getBufferedMs();
+    return {
+      queuedMs: toMs(queuedSamples),
+      bufferedMs,
+      playedMs: Math.max(0, toMs(sentSamples) - bufferedMs),
+      underruns,
+    };
+  };
+
+  const hasPendingAudio = () => queue.length > 0 || tracker.getBufferedMs() > 0;
+
+  const clear = () => {
+    stopTimer();
+    queue = [];
+    queuedSamples = 0;
+    sentSamples = 0;
+    underruns = 0;
+    itemSamples.clear();
+    tracker.reset();
+    isBuffering = true;
+    isFlushed = false;
+    setSpeaking(false);
+  };
+
+  return { enqueue, flush, getPosition, getStats, hasPendingAudio, clear };
+};
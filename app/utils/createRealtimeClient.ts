@@ -0,0 +1,53 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+import { createRealtimeSession } from "../services/realtimeSession";
+
+const RELAY_SERVER_URL = process.env.NEXT_PUBLIC_RELAY_SERVER_URL;
+
+/**
+ * When the relay server (`npm run start-server`) is configured it owns the session
+ * timestamps, so the browser must not report duration itself.
+ */
+export const usesRelayServer = Boolean(RELAY_SERVER_URL);
+
+/**
+ * Builds a RealtimeClient for the customer: through the relay server when one is
+ * configured, otherwise directly against OpenAI with an ephemeral client secret.
+ */
+export const createRealtimeClient = async (
+  customerToken: string,
+  model: string
+): Promise<RealtimeClient> => {
+  if (RELAY_SERVER_URL) {
+    // The relay authenticates the token and injects the API key server-side
+    return new RealtimeClient({
+      url: `${RELAY_SERVER_URL}/relay/${encodeURIComponent(customerToken)}`,
+    });
+  }
+
+  const session = await createRealtimeSession(customerToken);
+  if (session.status !== 1 || !session.data) {
+    throw new Error(session.message || "Failed to create Realtime session");
+  }
+
+  // Only the short-lived client secret reaches the browser, never the customer's key
+  return new RealtimeClient({
+    model,
+    apiKey: session.data.client_secret,
+    dangerouslyAllowAPIKeyInBrowser: true,
+  });
+};
+
+/** Error code the relay server sends right before it closes a session whose plan ran out. */
+export const CONVERSATION_LIMIT_ERROR_CODE = "conversation_limit_reached";
+
+/**
+ * Calls `onLimitReached` when the relay ends the session because the customer's
+ * conversation time is used up.
+ */
+export const onConversationLimitReached = (client: RealtimeClient, onLimitReached: () => void) => {
+  client.on("realtime.event", ({ source, event }: any) => {
+    if (source === "server" && event.type === "error" && event.error?.code === CONVERSATION_LIMIT_ERROR_CODE) {
+      onLimitReached();
+    }
+  });
+};
@@ -0,0 +1,155 @@
+import { ToolCallRecord, TranscriptTurn } from "../Components/types";
+import { createLogger } from "./logger";
+
+const log = createLogger("EmbedBridge");
+
+/**
+ * Every message of the protocol, in both directions, carries these two fields
+ * so either side can ignore unrelated `postMessage` traffic.
+ */
+export const EMBED_MESSAGE_SOURCE = "holoagent";
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Longest text a host command may carry; anything longer is refused
+const MAX_COMMAND_TEXT_LENGTH = 4000;
+// Three base64url parts, as in app/utils/sessionToken.ts
+const SESSION_TOKEN_PATTERN = /^[\w-]+\.[\w-]+\.[\w-]+$/;
+
+/**
+ * Events the widget posts to the host page.
+ */
+export type WidgetEvent =
+  /** The widget has loaded its config and accepts commands. */
+  | { type: "widget.ready" }
+  | { type: "session.started"; sessionId?: string; mode: string }
+  | { type: "session.ended"; sessionId?: string; durationSeconds: number }
+  /** A finished user or assistant turn. */
+  | { type: "transcript.turn"; turn: TranscriptTurn }
+  /** A tool the model ran, e.g. a product lookup, with its arguments and result. */
+  | { type: "tool.call"; call: ToolCallRecord }
+  | { type: "video.play"; url: string }
+  /** The customer's plan ran out; the session stops. */
+  | { type: "limit.reached" };
+
+/**
+ * Commands the host page can post to the widget.
+ */
+export type HostCommand =
+  | { type: "start" }
+  | { type: "stop" }
+  /** Drops microphone input while muted; the avatar keeps talking. */
+  | { type: "mute"; muted: boolean }
+  /** Sends a user message, as if typed in text chat. */
+  | { type: "send_text"; text: string }
+  /** Tells the agent about the page the visitor is on, e.g. the product shown. Empty clears it. */
+  | { type: "set_context"; context: string }
+  /** Replaces the session token before the old one expires, once the widget has checked it; used from the next request on. */
+  | { type: "set_token"; token: string };
+
+export type EmbedMessage<T> = T & { source: typeof EMBED_MESSAGE_SOURCE; version: number };
+
+export interface EmbedBridge {
+  hostOrigin: string;
+  post: (event: WidgetEvent) => void;
+  /** Subscribes to host commands; returns the unsubscribe function. */
+  onCommand: (handler: (command: HostCommand) => void) => () => void;
+  destroy: () => void;
+}
+
+/**
+ * Origin of the page framing the widget, or null when it isn't framed.
+ * `ancestorOrigins` is not available in every browser; the referrer of the
+ * iframe's first load is the host page there.
+ */
+export const getHostOrigin = (): string | null => {
+  if (typeof window === "undefined" || window.parent === window) return null;
+
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return ancestor;
+  if (!document.referrer) return null;
+  try {
+    return new URL(document.referrer).origin;
+  } catch {
+    return null;
+  }
+};
+
+const isText = (value: unknown): value is string =>
+  typeof value === "string" && value.length <= MAX_COMMAND_TEXT_LENGTH;
+
+/**
+ * Validates a message from the host page, returning the command it carries
+ * or null when it isn't one.
+ */
+export const parseHostCommand = (data: unknown): HostCommand | null => {
+  const message = data as Partial<EmbedMessage<Record<string, unknown>>> | null;
+  if (!message || typeof message !== "object" || message.source !== EMBED_MESSAGE_SOURCE) return null;
+
+  switch (message.type) {
+    case "start":
+    case "stop":
+      return { type: message.type };
+    case "mute":
+      return typeof message.muted === "boolean" ? { type: "mute", muted: message.muted } : null;
+    case "send_text":
+      return isText(message.text) && message.text.trim() ? { type: "send_text", text: message.text.trim() } : null;
+    case "set_context":
+      return isText(message.context) ? { type: "set_context", context: message.context.trim() } : null;
+    case "set_token":
+      return isText(message.token) && SESSION_TOKEN_PATTERN.test(message.token)
+        ? { type: "set_token", token: message.token }
+        : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Connects the widget to the page that embeds it. Events are only posted to
+ * `hostOrigin`, and commands are only taken from the parent window at that origin.
+ */
+export const createEmbedBridge = (hostOrigin: string): EmbedBridge => {
+  const handlers = new Set<(command: HostCommand) => void>();
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== window.parent || event.origin !== hostOrigin) return;
+    const command = parseHostCommand(event.data);
+    if (!command) {
+      if (event.data?.source === EMBED_MESSAGE_SOURCE) {
+        log.warn("Ignoring malformed host command", event.data?.type);
+      }
+      return;
+    }
+    log.debug("Host command:", command.type);
+    handlers.forEach((handler) => handler(command));
+  };
+  window.addEventListener("message", handleMessage);
+
+  return {
+    hostOrigin,
+    post: (event) => {
+      const message: EmbedMessage<WidgetEvent> = {
+        ...event,
+        source: EMBED_MESSAGE_SOURCE,
+        version: EMBED_PROTOCOL_VERSION,
+      };
+      window.parent.postMessage(message, hostOrigin);
+    },
+    onCommand: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    destroy: () => {
+      handlers.clear();
+      window.removeEventListener("message", handleMessage);
+    },
+  };
+};
+
+/**
+ * Adds the host page's context to the agent's instructions.
+ */
+export const withHostContext = (instructions: string, context: string | null): string =>
+  context ? `${instructions}\n\nThe visitor is currently on this page of the website: ${context}` : instructions;
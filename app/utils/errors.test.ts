@@ -0,0 +1,31 @@
+import { AxiosError, AxiosHeaders, AxiosResponse } from "axios";
+import { describe, expect, it } from "vitest";
+import { classifyError } from "./errors";
+
+const responseError = (status: number, data: unknown) => {
+  const config = { headers: new AxiosHeaders() };
+  const response: AxiosResponse = { status, statusText: "", data, headers: {}, config };
+  return new AxiosError(`Request failed with status code ${status}`, "ERR_BAD_REQUEST", config, {}, response);
+};
+
+describe("classifyError", () => {
+  it("uses the code a refused request names", () => {
+    expect(classifyError(responseError(401, { status: 0, code: "token_expired" }), "unknown").category).toBe(
+      "token_expired"
+    );
+    expect(classifyError(responseError(403, { status: 0, code: "token_invalid" }), "unknown").category).toBe(
+      "token_invalid"
+    );
+    expect(classifyError(responseError(403, { status: 0, code: "limit_reached" }), "unknown").category).toBe(
+      "limit_reached"
+    );
+  });
+
+  it("falls back to the caller's category for a 403 without a code", () => {
+    expect(classifyError(responseError(403, { status: 0 }), "agent_connection").category).toBe("agent_connection");
+  });
+
+  it("treats a request without a response as a network error", () => {
+    expect(classifyError(new AxiosError("Network Error", "ERR_NETWORK"), "agent_connection").category).toBe("network");
+  });
+});
@@ -0,0 +1,177 @@
+import axios from "axios";
+
+export type ErrorCategory =
+  | "token_missing"
+  | "token_invalid"
+  | "token_expired"
+  | "origin_not_allowed"
+  | "limit_reached"
+  | "network"
+  | "mic_permission"
+  | "mic_unavailable"
+  | "openai_auth"
+  | "avatar_not_found"
+  | "avatar_connection"
+  | "agent_connection"
+  | "connection_lost"
+  | "tool_failed"
+  | "unknown";
+
+export type RecoveryAction = "retry" | "switch_to_text" | "grant_mic" | "reload" | "dismiss";
+
+/**
+ * A failure as shown to the visitor: what happened in plain words and what they
+ * can do about it. `detail` keeps the technical message for logs and reports.
+ */
+export interface SessionError {
+  category: ErrorCategory;
+  message: string;
+  /** Warnings leave the conversation running and are shown less prominently. */
+  severity: "error" | "warning";
+  /** Fatal errors end the session and are reported to the backend. */
+  fatal: boolean;
+  actions: RecoveryAction[];
+  detail?: string;
+}
+
+type ErrorTemplate = Omit<SessionError, "category" | "detail">;
+
+const ERROR_CATALOG: Record<ErrorCategory, ErrorTemplate> = {
+  token_missing: {
+    message: "This page needs an access link with a token. Please use the link you were given.",
+    severity: "error",
+    fatal: false,
+    actions: [],
+  },
+  token_invalid: {
+    message: "This access link is not valid. Please check the link or ask for a new one.",
+    severity: "error",
+    fatal: false,
+    actions: [],
+  },
+  token_expired: {
+    message: "This access link has expired or is no longer active. Reload the page or ask for a new link.",
+    severity: "error",
+    fatal: true,
+    actions: ["reload"],
+  },
+  origin_not_allowed: {
+    message: "This agent isn't available on this website.",
+    severity: "error",
+    fatal: false,
+    actions: [],
+  },
+  limit_reached: {
+    message: "This agent has used up its conversation time for now. Please try again later.",
+    severity: "error",
+    fatal: false,
+    actions: [],
+  },
+  network: {
+    message: "We couldn't reach the server. Check your connection and try again.",
+    severity: "error",
+    fatal: false,
+    actions: ["reload"],
+  },
+  mic_permission: {
+    message: "Microphone access is blocked. Allow it in your browser's site settings, or continue in text chat.",
+    severity: "error",
+    fatal: false,
+    actions: ["grant_mic", "switch_to_text"],
+  },
+  mic_unavailable: {
+    message: "No microphone was found. Connect one and try again, or continue in text chat.",
+    severity: "error",
+    fatal: false,
+    actions: ["grant_mic", "switch_to_text"],
+  },
+  openai_auth: {
+    message: "The agent isn't set up correctly right now. Please let the site owner know.",
+    severity: "error",
+    fatal: true,
+    actions: [],
+  },
+  avatar_not_found: {
+    message: "This agent's avatar could not be found. Please let the site owner know.",
+    severity: "error",
+    fatal: true,
+    actions: [],
+  },
+  avatar_connection: {
+    message: "We couldn't connect to the avatar. Check your connection and try again.",
+    severity: "error",
+    fatal: true,
+    actions: ["retry", "switch_to_text"],
+  },
+  agent_connection: {
+    message: "We couldn't connect to the agent. Check your connection and try again.",
+    severity: "error",
+    fatal: true,
+    actions: ["retry"],
+  },
+  connection_lost: {
+    message: "The connection was lost. Start the conversation again to continue.",
+    severity: "error",
+    fatal: true,
+    actions: ["retry"],
+  },
+  tool_failed: {
+    message: "That content couldn't be loaded right now, but you can keep chatting.",
+    severity: "warning",
+    fatal: false,
+    actions: ["dismiss"],
+  },
+  unknown: {
+    message: "Something went wrong. Please try again.",
+    severity: "error",
+    fatal: true,
+    actions: ["retry"],
+  },
+};
+
+export const RECOVERY_ACTION_LABELS: Record<RecoveryAction, string> = {
+  retry: "Try again",
+  switch_to_text: "Use text chat",
+  grant_mic: "Allow microphone",
+  reload: "Reload",
+  dismiss: "Dismiss",
+};
+
+export const toSessionError = (category: ErrorCategory, detail?: string): SessionError => ({
+  category,
+  ...ERROR_CATALOG[category],
+  detail,
+});
+
+/**
+ * Maps a thrown error to a category, falling back to the one the caller expects
+ * for the step that failed (e.g. `avatar_connection` while starting Simli).
+ */
+export const classifyError = (err: unknown, fallback: ErrorCategory): SessionError => {
+  const detail = err instanceof Error ? err.message : String(err);
+  const name = (err as { name?: string } | null)?.name;
+
+  // getUserMedia failures
+  if (name === "NotAllowedError" || name === "SecurityError") return toSessionError("mic_permission", detail);
+  if (name === "NotFoundError" || name === "OverconstrainedError") return toSessionError("mic_unavailable", detail);
+
+  if (axios.isAxiosError(err)) {
+    // Our middleware and route handlers name the problem they refused a request for
+    const code = (err.response?.data as { code?: string } | undefined)?.code;
+    if (
+      code === "token_missing" ||
+      code === "token_invalid" ||
+      code === "token_expired" ||
+      code === "limit_reached"
+    ) {
+      return toSessionError(code, detail);
+    }
+    if (err.response?.status === 401) return toSessionError("openai_auth", detail);
+    if (!err.response) return toSessionError("network", detail);
+  }
+
+  if (/face/i.test(detail) && /not found|invalid|does not exist/i.test(detail)) {
+    return toSessionError("avatar_not_found", detail);
+  }
+  return toSessionError(fallback, detail);
+};
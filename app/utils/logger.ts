@@ -0,0 +1,185 @@
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+// hasOwn, so inherited names like "toString" aren't taken for a level
+const parseLevel = (value: string | undefined, fallback: LogLevel): LogLevel =>
+  value && Object.hasOwn(LEVEL_ORDER, value) ? (value as LogLevel) : fallback;
+
+// Production visitors only see problems; local development logs everything
+const LOG_LEVEL = parseLevel(
+  process.env.NEXT_PUBLIC_LOG_LEVEL,
+  process.env.NODE_ENV === "production" ? "warn" : "debug"
+);
+const SINK_URL = process.env.NEXT_PUBLIC_LOG_SINK_URL;
+const SINK_LEVEL = parseLevel(process.env.NEXT_PUBLIC_LOG_SINK_LEVEL, "error");
+const SINK_BATCH_SIZE = 20;
+const SINK_FLUSH_INTERVAL_MS = 5000;
+
+const REDACTED = "[redacted]";
+const SENSITIVE_KEYS = /^(api_?key|apikey|token|customer_?token|client_?secret|authorization|password|secret)$/i;
+const SENSITIVE_PATTERNS: RegExp[] = [
+  /\bsk-[A-Za-z0-9_-]{10,}/g, // OpenAI API keys
+  /\bek_[A-Za-z0-9_-]{10,}/g, // OpenAI ephemeral client secrets
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, // JWTs
+  /(Bearer\s+)[^\s"']+/gi,
+  /([?&](?:token|key|api_key)=)[^&#\s"']+/gi,
+  /(\/relay\/)[^/?#\s"']+/g, // Customer token in relay URLs
+];
+const MAX_REDACT_DEPTH = 4;
+
+let sessionId: string | null = null;
+
+/**
+ * Tags every following log line with the session, until the next one starts.
+ */
+export const setLogSessionId = (id: string | null) => {
+  sessionId = id;
+};
+
+export const isLogLevelEnabled = (level: Exclude<LogLevel, "silent">) =>
+  LEVEL_ORDER[level] >= LEVEL_ORDER[LOG_LEVEL];
+
+export const redactString = (value: string) =>
+  SENSITIVE_PATTERNS.reduce(
+    (text, pattern) => text.replace(pattern, (_match, prefix) => (typeof prefix === "string" ? prefix : "") + REDACTED),
+    value
+  );
+
+/**
+ * Copies a log argument with keys, tokens and secrets masked. Objects nested
+ * deeper than a few levels, and class instances other than errors, pass through
+ * untouched, so logging large SDK events stays cheap.
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === "string") return redactString(value);
+  if (value instanceof Error) {
+    const copy = new Error(redactString(value.message));
+    copy.name = value.name;
+    copy.stack = value.stack && redactString(value.stack);
+    return copy;
+  }
+  if (depth >= MAX_REDACT_DEPTH || value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  if (Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, SENSITIVE_KEYS.test(key) ? REDACTED : redact(item, depth + 1)])
+  );
+};
+
+interface SinkEntry {
+  level: LogLevel;
+  scope: string;
+  message: string;
+  session_id: string | null;
+  timestamp: string;
+  url: string;
+}
+
+let sinkQueue: SinkEntry[] = [];
+let sinkTimer: ReturnType<typeof setTimeout> | null = null;
+
+const stringifyArg = (arg: unknown) => {
+  if (typeof arg === "string") return arg;
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+};
+
+/**
+ * Posts the queued entries. On page unload only a beacon is sure to go out.
+ */
+const flushSink = (useBeacon = false) => {
+  if (sinkTimer) {
+    clearTimeout(sinkTimer);
+    sinkTimer = null;
+  }
+  if (!SINK_URL || sinkQueue.length === 0) return;
+
+  const body = JSON.stringify({ entries: sinkQueue });
+  sinkQueue = [];
+  if (useBeacon && navigator.sendBeacon) {
+    navigator.sendBeacon(SINK_URL, new Blob([body], { type: "application/json" }));
+    return;
+  }
+  // The sink must never log its own failures, or an unreachable endpoint would loop
+  fetch(SINK_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  }).catch(() => {});
+};
+
+const sendToSink = (level: LogLevel, scope: string, args: unknown[]) => {
+  if (!SINK_URL || typeof window === "undefined" || LEVEL_ORDER[level] < LEVEL_ORDER[SINK_LEVEL]) return;
+
+  sinkQueue.push({
+    level,
+    scope,
+    message: args.map(stringifyArg).join(" "),
+    session_id: sessionId,
+    timestamp: new Date().toISOString(),
+    url: redactString(window.location.href),
+  });
+  if (sinkQueue.length >= SINK_BATCH_SIZE) {
+    flushSink();
+  } else if (!sinkTimer) {
+    sinkTimer = setTimeout(() => flushSink(), SINK_FLUSH_INTERVAL_MS);
+  }
+};
+
+if (typeof window !== "undefined" && SINK_URL) {
+  window.addEventListener("pagehide", () => flushSink(true));
+}
+
+export interface Logger {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+const CONSOLE_METHODS = {
+  debug: "debug",
+  info: "log",
+  warn: "warn",
+  error: "error",
+} as const;
+
+/**
+ * Creates a logger whose lines are prefixed with the scope and the current
+ * session, filtered by `NEXT_PUBLIC_LOG_LEVEL`, and redacted. Errors (or the
+ * level set in `NEXT_PUBLIC_LOG_SINK_LEVEL`) also go to `NEXT_PUBLIC_LOG_SINK_URL`.
+ */
+export const createLogger = (scope: string): Logger => {
+  const log = (level: Exclude<LogLevel, "silent">) => (...args: unknown[]) => {
+    const shouldPrint = isLogLevelEnabled(level);
+    const shouldSink = Boolean(SINK_URL) && LEVEL_ORDER[level] >= LEVEL_ORDER[SINK_LEVEL];
+    if (!shouldPrint && !shouldSink) return;
+
+    const redacted = args.map((arg) => redact(arg));
+    if (shouldPrint) {
+      const prefix = sessionId ? `[${scope}] [${sessionId}]` : `[${scope}]`;
+      console[CONSOLE_METHODS[level]](prefix, ...redacted);
+    }
+    sendToSink(level, scope, redacted);
+  };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+};
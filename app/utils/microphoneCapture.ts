@@ -0,0 +1,72 @@
+const WORKLET_URL = "/worklets/pcm-capture-processor.js";
+const WORKLET_NAME = "pcm-capture-processor";
+
+export interface InputLevel {
+  rms: number;
+  peak: number;
+}
+
+export interface MicrophoneCaptureOptions {
+  /** Receives fixed-size PCM16 frames at `targetSampleRate`. */
+  onChunk: (pcm: Int16Array) => void;
+  onLevel?: (level: InputLevel) => void;
+  targetSampleRate?: number;
+  chunkMs?: number;
+}
+
+export interface MicrophoneCapture {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+// addModule must only run once per AudioContext
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorkletLoaded = async (audioContext: AudioContext) => {
+  if (loadedContexts.has(audioContext)) return;
+  await audioContext.audioWorklet.addModule(WORKLET_URL);
+  loadedContexts.add(audioContext);
+};
+
+/**
+ * Opens the microphone and streams PCM16 frames from an AudioWorklet. Conversion,
+ * framing and resampling happen on the audio thread, so main-thread re-renders
+ * cannot cause capture glitches.
+ */
+export const startMicrophoneCapture = async (
+  audioContext: AudioContext,
+  { onChunk, onLevel, targetSampleRate = 24000, chunkMs = 40 }: MicrophoneCaptureOptions
+): Promise<MicrophoneCapture> => {
+  await ensureWorkletLoaded(audioContext);
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(audioContext, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    processorOptions: {
+      targetSampleRate,
+      frameSize: Math.round((targetSampleRate * chunkMs) / 1000),
+    },
+  });
+
+  node.port.onmessage = (e: MessageEvent) => {
+    if (e.data.type === "chunk") {
+      onChunk(e.data.pcm);
+    } else if (e.data.type === "level") {
+      onLevel?.({ rms: e.data.rms, peak: e.data.peak });
+    }
+  };
+
+  source.connect(node);
+
+  return {
+    stream,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+};
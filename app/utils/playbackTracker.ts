@@ -0,0 +1,106 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+import { createLogger } from "./logger";
+
+const log = createLogger("PlaybackTracker");
+
+export interface PlaybackPosition {
+  itemId: string;
+  /** Milliseconds of the item's audio the user has actually heard. */
+  playedMs: number;
+  /** Milliseconds of the item's audio handed to the avatar so far. */
+  sentMs: number;
+}
+
+export interface PlaybackTracker {
+  /** Records audio for an assistant item that was just handed to the avatar. */
+  onAudioSent: (itemId: string, samples: number) => void;
+  /** Where playback currently is, or null when nothing is playing. */
+  getPosition: () => PlaybackPosition | null;
+  /** Milliseconds of sent audio the avatar has not played yet. */
+  getBufferedMs: () => number;
+  /** Forgets all queued audio, e.g. after the avatar buffer was cleared. */
+  reset: () => void;
+}
+
+interface ItemSpan {
+  itemId: string;
+  startsAt: number;
+  durationMs: number;
+  /** Item audio that was scheduled before this span. */
+  itemOffsetMs: number;
+}
+
+/**
+ * Estimates what the avatar is saying right now. The avatar plays audio in real
+ * time from the moment it receives it, so each chunk starts playing when the
+ * previous one ends (or immediately, if playback had drained).
+ */
+export const createPlaybackTracker = (
+  sampleRate: number,
+  now: () => number = () => performance.now()
+): PlaybackTracker => {
+  let spans: ItemSpan[] = [];
+  let queuedUntil = 0;
+  const sentMsByItem = new Map<string, number>();
+
+  const onAudioSent = (itemId: string, samples: number) => {
+    const durationMs = (samples / sampleRate) * 1000;
+    const current = now();
+    const startsAt = Math.max(current, queuedUntil);
+    queuedUntil = startsAt + durationMs;
+    const itemOffsetMs = sentMsByItem.get(itemId) ?? 0;
+    sentMsByItem.set(itemId, itemOffsetMs + durationMs);
+
+    const last = spans[spans.length - 1];
+    if (last && last.itemId === itemId && last.startsAt + last.durationMs >= startsAt) {
+      last.durationMs += durationMs;
+    } else {
+      spans.push({ itemId, startsAt, durationMs, itemOffsetMs });
+    }
+
+    // Keep only spans that can still be playing
+    spans = spans.filter((span) => span.startsAt + span.durationMs > current);
+  };
+
+  const getPosition = (): PlaybackPosition | null => {
+    const current = now();
+    const span = spans.find((s) => current < s.startsAt + s.durationMs);
+    if (!span) return null;
+    return {
+      itemId: span.itemId,
+      playedMs: span.itemOffsetMs + Math.max(0, current - span.startsAt),
+      sentMs: sentMsByItem.get(span.itemId) ?? 0,
+    };
+  };
+
+  const getBufferedMs = () => Math.max(0, queuedUntil - now());
+
+  const reset = () => {
+    spans = [];
+    queuedUntil = 0;
+    sentMsByItem.clear();
+  };
+
+  return { onAudioSent, getPosition, getBufferedMs, reset };
+};
+
+// The Realtime API measures item audio at 24kHz
+const REALTIME_SAMPLE_RATE = 24000;
+
+/**
+ * Cancels the in-flight response and truncates the assistant item at what was
+ * actually played, so the model knows how much of its answer the user heard.
+ */
+export const cancelAtPlaybackPosition = (client: RealtimeClient, position: PlaybackPosition | null) => {
+  if (!position) {
+    client.cancelResponse("");
+    return;
+  }
+
+  try {
+    client.cancelResponse(position.itemId, Math.floor((position.playedMs / 1000) * REALTIME_SAMPLE_RATE));
+  } catch (err) {
+    log.warn("Could not truncate interrupted item:", err);
+    client.cancelResponse("");
+  }
+};
@@ -0,0 +1,108 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+import { SimliClient } from "simli-client";
+import { TranscriptTurn } from "../Components/types";
+import { createLogger } from "./logger";
+
+const log = createLogger("Reconnect");
+
+export interface BackoffPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffPolicy = {
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  maxAttempts: 6,
+};
+
+// Turns replayed into a new Realtime session, oldest dropped first
+const MAX_REPLAYED_TURNS = 20;
+const SIMLI_CONNECT_TIMEOUT_MS = 15000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Delay before the given (1-based) retry: doubling from `initialDelayMs` up to
+ * `maxDelayMs`, with jitter so many widgets don't reconnect in lockstep.
+ */
+export const backoffDelay = (attempt: number, policy: BackoffPolicy = DEFAULT_BACKOFF) => {
+  const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  return delay * (0.5 + Math.random() * 0.5);
+};
+
+/**
+ * Runs `connect` until it succeeds. Resolves to false when the attempts are used
+ * up or `isCancelled` turns true, e.g. because the user stopped the session.
+ */
+export const retryWithBackoff = async (
+  connect: (attempt: number) => Promise<void>,
+  isCancelled: () => boolean,
+  policy: BackoffPolicy = DEFAULT_BACKOFF
+): Promise<boolean> => {
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    await sleep(backoffDelay(attempt, policy));
+    if (isCancelled()) return false;
+
+    try {
+      await connect(attempt);
+      return true;
+    } catch (err) {
+      log.warn(`Reconnect attempt ${attempt}/${policy.maxAttempts} failed:`, err);
+    }
+  }
+  return false;
+};
+
+/**
+ * Calls `onClose` when the Realtime websocket closes, whether dropped or closed
+ * by `disconnect()`; callers tell the two apart themselves.
+ */
+export const onRealtimeClose = (client: RealtimeClient, onClose: () => void) => {
+  client.realtime.on("close", onClose);
+};
+
+/**
+ * Resolves on the next Simli `connected` event and rejects on `failed` or timeout.
+ */
+export const waitForSimliConnection = (client: SimliClient, timeoutMs = SIMLI_CONNECT_TIMEOUT_MS) =>
+  new Promise<void>((resolve, reject) => {
+    const done = () => {
+      clearTimeout(timer);
+      client.off("connected", onConnected);
+      client.off("failed", onFailed);
+    };
+    const onConnected = () => {
+      done();
+      resolve();
+    };
+    const onFailed = (reason: string) => {
+      done();
+      reject(new Error(reason));
+    };
+    const timer = setTimeout(() => onFailed("Timed out waiting for Simli"), timeoutMs);
+    client.on("connected", onConnected);
+    client.on("failed", onFailed);
+  });
+
+/**
+ * Seeds a fresh Realtime session with the latest turns so the agent keeps its
+ * context. Items keep their original ids, so the transcript doesn't show them twice.
+ * Interrupted answers are replayed only up to what the user heard.
+ */
+export const replayTranscript = (client: RealtimeClient, turns: TranscriptTurn[], limit = MAX_REPLAYED_TURNS) => {
+  turns.slice(-limit).forEach((turn) => {
+    const text = turn.heardChars === undefined ? turn.text : turn.text.slice(0, turn.heardChars);
+    if (!text.trim()) return;
+
+    client.realtime.send("conversation.item.create", {
+      item: {
+        id: turn.id,
+        type: "message",
+        role: turn.role,
+        content: [{ type: turn.role === "user" ? "input_text" : "text", text }],
+      },
+    });
+  });
+};
@@ -0,0 +1,42 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+
+export const DEFAULT_WRAP_UP_SECONDS = 60;
+export const DEFAULT_WRAP_UP_MESSAGE =
+  "We're almost out of time for today. Thank you so much for chatting with me!";
+export const DEFAULT_WALLET_URL = "https://holoagent.ai/index/wallet";
+export const TOKEN_LIMIT_MESSAGE =
+  "We've covered a lot in this conversation, so I'll have to wrap up here. Thanks for chatting with me!";
+// Time the avatar gets to say the wrap-up line before a capped session is stopped
+export const TOKEN_LIMIT_GRACE_MS = 10000;
+
+/**
+ * Formats remaining conversation time as `m:ss`, or whole minutes once there is
+ * more than the countdown would show.
+ */
+export const formatRemaining = (seconds: number, asCountdown: boolean) => {
+  const clamped = Math.max(0, Math.floor(seconds));
+  if (!asCountdown) {
+    const minutes = Math.ceil(clamped / 60);
+    return `${minutes} min left`;
+  }
+  const minutes = Math.floor(clamped / 60);
+  return `${minutes}:${String(clamped % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Has the avatar say the wrap-up line. An answer that is still being generated
+ * is allowed to finish first, since the Realtime API rejects a second response.
+ */
+export const speakWrapUpLine = async (client: RealtimeClient, line: string) => {
+  const lastItem = client.conversation.getItems().slice(-1)[0];
+  if (lastItem?.role === "assistant" && lastItem.status === "in_progress") {
+    await client.realtime.waitForNext("server.response.done", 15000);
+  }
+  if (!client.isConnected()) return;
+
+  client.realtime.send("response.create", {
+    response: {
+      instructions: `The conversation time is almost up. Say exactly this to the user and nothing else: "${line}"`,
+    },
+  });
+};
@@ -0,0 +1,66 @@
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+import { verifySessionToken } from "./sessionToken";
+
+const SECRET = "test-secret";
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const sign = (payload: Record<string, unknown>, { secret = SECRET, alg = "HS256" } = {}) => {
+  const unsigned = `${encode({ alg, typ: "JWT" })}.${encode(payload)}`;
+  return `${unsigned}.${createHmac("sha256", secret).update(unsigned).digest("base64url")}`;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  sub: "customer-1",
+  face_id: "face-1",
+  scopes: ["voice", "text"],
+  iat: now(),
+  exp: now() + 600,
+  jti: "token-1",
+  ...overrides,
+});
+
+describe("verifySessionToken", () => {
+  it("accepts a well-formed token and returns its claims", async () => {
+    const payload = claims();
+    expect(await verifySessionToken(sign(payload), SECRET)).toEqual({ valid: true, claims: payload });
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    expect(await verifySessionToken(sign(claims(), { secret: "other" }), SECRET)).toEqual({
+      valid: false,
+      reason: "bad_signature",
+    });
+  });
+
+  it("rejects an expired token, allowing for clock skew", async () => {
+    expect((await verifySessionToken(sign(claims({ exp: now() - 10 })), SECRET)).valid).toBe(true);
+    expect(await verifySessionToken(sign(claims({ exp: now() - 120 })), SECRET)).toEqual({
+      valid: false,
+      reason: "expired",
+    });
+  });
+
+  it("rejects tokens without the claims it needs", async () => {
+    for (const payload of [
+      claims({ scopes: [] }),
+      claims({ scopes: ["admin"] }),
+      claims({ face_id: undefined }),
+      claims({ exp: "soon" }),
+    ]) {
+      expect(await verifySessionToken(sign(payload), SECRET)).toEqual({ valid: false, reason: "malformed" });
+    }
+  });
+
+  it("rejects malformed tokens and other algorithms", async () => {
+    expect(await verifySessionToken("not-a-token", SECRET)).toEqual({ valid: false, reason: "malformed" });
+    expect(await verifySessionToken("a.b.c", SECRET)).toEqual({ valid: false, reason: "malformed" });
+    expect(await verifySessionToken(sign(claims(), { alg: "none" }), SECRET)).toEqual({
+      valid: false,
+      reason: "malformed",
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Which interaction modes a token may use: `voice` covers regular and push-to-talk.
+ */
+export type TokenScope = "voice" | "text";
+
+/**
+ * Claims of a session token: an HS256 JWT minted by the HoloAgent backend
+ * with the shared `HOLOAGENT_TOKEN_SECRET`.
+ */
+export interface SessionTokenClaims {
+  /** The customer the token was minted for. */
+  sub: string;
+  face_id: string;
+  scopes: TokenScope[];
+  /** Expiry, in seconds since the epoch. */
+  exp: number;
+  iat: number;
+  /** Token ID, checked against the backend's revocation list. */
+  jti: string;
+}
+
+export type SessionTokenResult =
+  | { valid: true; claims: SessionTokenClaims }
+  | { valid: false; reason: "malformed" | "bad_signature" | "expired" };
+
+// Request headers the middleware sets for route handlers once the token is verified
+export const CUSTOMER_ID_HEADER = "x-holoagent-customer-id";
+export const FACE_ID_HEADER = "x-holoagent-face-id";
+export const SCOPES_HEADER = "x-holoagent-scopes";
+export const VERIFIED_HEADERS = [CUSTOMER_ID_HEADER, FACE_ID_HEADER, SCOPES_HEADER];
+
+const TOKEN_SCOPES: TokenScope[] = ["voice", "text"];
+
+// Tolerated clock difference between the backend that minted the token and this server
+const CLOCK_SKEW_SECONDS = 30;
+
+const base64UrlDecode = (input: string): Uint8Array => {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(input.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const decodeJson = (input: string): unknown => JSON.parse(new TextDecoder().decode(base64UrlDecode(input)));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const isClaims = (payload: unknown): payload is SessionTokenClaims =>
+  isRecord(payload) &&
+  typeof payload.sub === "string" &&
+  typeof payload.face_id === "string" &&
+  typeof payload.jti === "string" &&
+  Number.isFinite(payload.exp) &&
+  Array.isArray(payload.scopes) &&
+  payload.scopes.length > 0 &&
+  payload.scopes.every((scope) => TOKEN_SCOPES.includes(scope));
+
+/**
+ * Checks a token's signature and expiry. Uses Web Crypto, so it runs in the edge
+ * middleware as well as in route handlers. Revocation is checked separately,
+ * since it needs the backend. Keep in step with `verifySessionToken` in server.js.
+ */
+export const verifySessionToken = async (token: string, secret: string): Promise<SessionTokenResult> => {
+  const parts = token.split(".");
+  if (parts.length !== 3) return { valid: false, reason: "malformed" };
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: unknown;
+  let payload: unknown;
+  let signature: Uint8Array;
+  try {
+    header = decodeJson(encodedHeader);
+    payload = decodeJson(encodedPayload);
+    signature = base64UrlDecode(encodedSignature);
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+  // Only HS256 is accepted, whatever the header claims
+  if (!isRecord(header) || header.alg !== "HS256" || !isClaims(payload)) return { valid: false, reason: "malformed" };
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  const signed = encoder.encode(`${encodedHeader}.${encodedPayload}`);
+  if (!(await crypto.subtle.verify("HMAC", key, signature, signed))) {
+    return { valid: false, reason: "bad_signature" };
+  }
+
+  if (payload.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) return { valid: false, reason: "expired" };
+  return { valid: true, claims: payload };
+};
+
+/**
+ * Reads the claims the middleware verified from a route handler's request.
+ */
+export const getVerifiedCustomer = (headers: Headers) => {
+  const customerId = headers.get(CUSTOMER_ID_HEADER);
+  const faceId = headers.get(FACE_ID_HEADER);
+  if (!customerId || !faceId) return null;
+  const scopes = (headers.get(SCOPES_HEADER) || "").split(",").filter(Boolean) as TokenScope[];
+  return { customerId, faceId, scopes };
+};
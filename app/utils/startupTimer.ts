@@ -0,0 +1,47 @@
+/**
+ * Startup phases, in the order they usually complete. Simli and the Realtime
+ * phases run in parallel, so the two groups interleave.
+ */
+export type StartupPhase =
+  | "simli_connected"
+  | "realtime_client_created"
+  | "realtime_session_configured"
+  | "realtime_connected"
+  | "ready"
+  | "first_audio";
+
+export interface StartupMark {
+  phase: StartupPhase;
+  /** Milliseconds since the user pressed Start. */
+  atMs: number;
+}
+
+export interface StartupTimer {
+  /** Records a phase once; later marks of the same phase are ignored. */
+  mark: (phase: StartupPhase) => void;
+  getMarks: () => StartupMark[];
+  /** One-line summary for logs, e.g. `simli_connected +1830ms, ready +1902ms`. */
+  summary: () => string;
+}
+
+/**
+ * Records how long each startup phase takes, measured from the Start press.
+ * Marks also go to the Performance timeline, so they show up in browser profiles.
+ */
+export const createStartupTimer = (onMark?: (marks: StartupMark[]) => void): StartupTimer => {
+  const startedAt = performance.now();
+  const marks: StartupMark[] = [];
+
+  const mark = (phase: StartupPhase) => {
+    if (marks.some((m) => m.phase === phase)) return;
+    marks.push({ phase, atMs: Math.round(performance.now() - startedAt) });
+    performance.mark?.(`holoagent:${phase}`);
+    onMark?.([...marks]);
+  };
+
+  return {
+    mark,
+    getMarks: () => [...marks],
+    summary: () => marks.map((m) => `${m.phase} +${m.atMs}ms`).join(", "),
+  };
+};
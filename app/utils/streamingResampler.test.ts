@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { createStreamingResampler } from "./streamingResampler";
+
+// The rates the avatar session resamples between: Realtime output to Simli input
+const INPUT_RATE = 24000;
+const OUTPUT_RATE = 16000;
+
+const sine = (frequency: number, sampleRate: number, length: number, amplitude = 10000) =>
+  Int16Array.from({ length }, (_, i) => Math.round(amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)));
+
+// Seeded so a failure can be reproduced
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const concat = (chunks: Int16Array[]) => {
+  const out = new Int16Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+const rms = (samples: Int16Array) =>
+  Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+
+const resampleAtOnce = (input: Int16Array) =>
+  createStreamingResampler({ inputSampleRate: INPUT_RATE, outputSampleRate: OUTPUT_RATE }).process(input);
+
+describe("createStreamingResampler", () => {
+  it("gives the same output for random chunk sizes as for the whole stream", () => {
+    const input = sine(440, INPUT_RATE, INPUT_RATE);
+    const expected = resampleAtOnce(input);
+    const random = createRandom(42);
+
+    for (let run = 0; run < 5; run++) {
+      const resampler = createStreamingResampler({ inputSampleRate: INPUT_RATE, outputSampleRate: OUTPUT_RATE });
+      const chunks: Int16Array[] = [];
+      for (let offset = 0; offset < input.length; ) {
+        const size = 1 + Math.floor(random() * 960);
+        chunks.push(resampler.process(input.subarray(offset, offset + size)));
+        offset += size;
+      }
+      expect(Array.from(concat(chunks))).toEqual(Array.from(expected));
+    }
+  });
+
+  it("produces output at the new rate", () => {
+    const output = resampleAtOnce(sine(440, INPUT_RATE, INPUT_RATE));
+    expect(Math.abs(output.length - OUTPUT_RATE)).toBeLessThanOrEqual(1);
+  });
+
+  it("keeps the level of a tone in the passband", () => {
+    const input = sine(1000, INPUT_RATE, INPUT_RATE);
+    // Skip the filter's warm-up at the start
+    const output = resampleAtOnce(input).subarray(100);
+    const gainDb = 20 * Math.log10(rms(output) / rms(input));
+    expect(Math.abs(gainDb)).toBeLessThan(0.5);
+  });
+
+  it("attenuates a tone above the new Nyquist frequency", () => {
+    const input = sine(10000, INPUT_RATE, INPUT_RATE);
+    const output = resampleAtOnce(input).subarray(100);
+    const gainDb = 20 * Math.log10(rms(output) / rms(input));
+    expect(gainDb).toBeLessThan(-30);
+  });
+
+  it("starts from silence again after reset", () => {
+    const input = sine(440, INPUT_RATE, 4800);
+    const resampler = createStreamingResampler({ inputSampleRate: INPUT_RATE, outputSampleRate: OUTPUT_RATE });
+    resampler.process(sine(3000, INPUT_RATE, 1234));
+    resampler.reset();
+    expect(Array.from(resampler.process(input))).toEqual(Array.from(resampleAtOnce(input)));
+  });
+});
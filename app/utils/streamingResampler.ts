@@ -0,0 +1,109 @@
+export interface StreamingResampler {
+  /** Resamples the next chunk of the stream, continuing where the previous chunk ended. */
+  process: (chunk: Int16Array) => Int16Array;
+  /** Forgets filter history and phase, e.g. after the stream was interrupted. */
+  reset: () => void;
+}
+
+export interface StreamingResamplerOptions {
+  inputSampleRate: number;
+  outputSampleRate: number;
+  /** Length of the anti-aliasing FIR filter. */
+  numberOfTaps?: number;
+}
+
+/**
+ * Windowed-sinc (Hamming) low-pass coefficients, normalized to unity gain at DC.
+ */
+const createLowPassCoefficients = (numberOfTaps: number, cutoffFreq: number, sampleRate: number) => {
+  const coefficients = new Float32Array(numberOfTaps);
+  const fc = cutoffFreq / sampleRate;
+  const middle = (numberOfTaps - 1) / 2;
+
+  for (let i = 0; i < numberOfTaps; i++) {
+    if (i === middle) {
+      coefficients[i] = 2 * Math.PI * fc;
+    } else {
+      const x = 2 * Math.PI * fc * (i - middle);
+      coefficients[i] = Math.sin(x) / (i - middle);
+    }
+    coefficients[i] *= 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (numberOfTaps - 1));
+  }
+
+  const sum = coefficients.reduce((acc, val) => acc + val, 0);
+  coefficients.forEach((_, i) => (coefficients[i] /= sum));
+  return coefficients;
+};
+
+const toInt16 = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value)));
+
+/**
+ * Creates a downsampler for a chunked PCM16 stream. The FIR history and the
+ * fractional read position are carried across chunks, so the output is the same
+ * as resampling the whole stream at once: no edge artifacts at chunk boundaries
+ * and no samples dropped between chunks.
+ */
+export const createStreamingResampler = ({
+  inputSampleRate,
+  outputSampleRate,
+  numberOfTaps = 31,
+}: StreamingResamplerOptions): StreamingResampler => {
+  if (inputSampleRate < outputSampleRate) {
+    throw new Error("Upsampling is not supported");
+  }
+
+  if (inputSampleRate === outputSampleRate) {
+    return { process: (chunk) => chunk, reset: () => {} };
+  }
+
+  const coefficients = createLowPassCoefficients(numberOfTaps, outputSampleRate * 0.45, inputSampleRate);
+  const ratio = inputSampleRate / outputSampleRate;
+  const historyLength = numberOfTaps - 1;
+
+  // Last input samples of the previous chunk, oldest first
+  let history = new Float32Array(historyLength);
+  // Read position relative to the start of the next chunk; -1 is the last filtered sample
+  let position = 0;
+  let lastFiltered = 0;
+
+  const process = (chunk: Int16Array): Int16Array => {
+    const length = chunk.length;
+    if (length === 0) return new Int16Array(0);
+
+    const extended = new Float32Array(historyLength + length);
+    extended.set(history);
+    extended.set(chunk, historyLength);
+
+    const filtered = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let j = 0; j < numberOfTaps; j++) {
+        sum += coefficients[j] * extended[i + historyLength - j];
+      }
+      filtered[i] = sum;
+    }
+    history = extended.slice(length);
+
+    const output: number[] = [];
+    while (position < length - 1) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const a = index < 0 ? lastFiltered : filtered[index];
+      const b = filtered[index + 1];
+      output.push(toInt16(a + fraction * (b - a)));
+      position += ratio;
+    }
+    position -= length;
+    lastFiltered = filtered[length - 1];
+
+    return Int16Array.from(output);
+  };
+
+  const reset = () => {
+    history = new Float32Array(historyLength);
+    position = 0;
+    lastFiltered = 0;
+  };
+
+  return { process, reset };
+};
@@ -0,0 +1,159 @@
+import { CSSProperties } from "react";
+import { CustomerTheme } from "../services/validateCustomer";
+
+export type ThemeFont = NonNullable<CustomerTheme["font"]>;
+export type AvatarFrame = NonNullable<CustomerTheme["avatar_frame"]>;
+
+export interface ThemeLabels {
+  start: string;
+  stop: string;
+  send: string;
+  messagePlaceholder: string;
+  pushToTalk: string;
+}
+
+/**
+ * A customer theme with every gap filled from the default look. Colors are
+ * validated hex strings; `themeStyle` turns them into the CSS variables the
+ * `brand` Tailwind colors read.
+ */
+export interface WidgetTheme {
+  colors: {
+    gradient: [string, string, string];
+    action: string;
+    stop: string;
+    background: string;
+    text: string;
+  };
+  labels: ThemeLabels;
+  idleMedia: { type: "image" | "video"; url: string };
+  font: ThemeFont;
+  avatarFrame: AvatarFrame;
+  backgroundImageUrl?: string;
+}
+
+export const DEFAULT_THEME: WidgetTheme = {
+  colors: {
+    gradient: ["#3b82f6", "#8b5cf6", "#ec4899"],
+    action: "#3b82f6",
+    stop: "#ef4444",
+    background: "#000000",
+    text: "#ffffff",
+  },
+  labels: {
+    start: "Talk To Agent",
+    stop: "Stop Interaction",
+    send: "Send",
+    messagePlaceholder: "Type your message...",
+    pushToTalk: "Push & hold to talk (or S)",
+  },
+  idleMedia: {
+    type: "image",
+    url: "https://faceaqses.s3.us-east-1.amazonaws.com/holoagent/project-images/holoagent1234567.gif",
+  },
+  font: "abc-repro",
+  avatarFrame: "rounded",
+};
+
+// Font variables are set on <html> by app/fonts/fonts.ts
+const FONT_FAMILIES: Record<ThemeFont, { sans: string; mono: string }> = {
+  "abc-repro": { sans: "var(--font-abc-repro)", mono: "var(--font-abc-repro-mono)" },
+  inter: { sans: "var(--font-inter)", mono: "var(--font-inter)" },
+  roboto: { sans: "var(--font-roboto)", mono: "var(--font-roboto)" },
+  lora: { sans: "var(--font-lora)", mono: "var(--font-lora)" },
+  system: { sans: "system-ui, sans-serif", mono: "ui-monospace, monospace" },
+};
+
+const AVATAR_RADIUS: Record<AvatarFrame, string> = {
+  rounded: "0.75rem",
+  square: "0",
+  circle: "9999px",
+};
+
+// Labels are button text; longer ones break the layout
+const MAX_LABEL_LENGTH = 40;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const isColor = (value: unknown): value is string => typeof value === "string" && HEX_COLOR.test(value);
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const label = (value: unknown, fallback: string) =>
+  typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_LABEL_LENGTH) : fallback;
+
+// "#38f" -> "51 136 255", the form Tailwind's <alpha-value> colors need
+const toRgbChannels = (hex: string) => {
+  const digits = hex.slice(1);
+  const full = digits.length === 3 ? digits.replace(/./g, "$&$&") : digits;
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)).join(" ");
+};
+
+/**
+ * Merges a customer theme into the default one, dropping values that are
+ * malformed rather than letting them reach the page's styles.
+ */
+export const resolveTheme = (theme: CustomerTheme = {}): WidgetTheme => {
+  const colors = theme.colors ?? {};
+  const labels = theme.labels ?? {};
+  const gradient = (colors.gradient ?? []).filter(isColor);
+  const defaults = DEFAULT_THEME;
+
+  return {
+    colors: {
+      gradient:
+        gradient.length >= 2 ? [gradient[0], gradient[1], gradient[2] ?? gradient[1]] : defaults.colors.gradient,
+      action: isColor(colors.action) ? colors.action : defaults.colors.action,
+      stop: isColor(colors.stop) ? colors.stop : defaults.colors.stop,
+      background: isColor(colors.background) ? colors.background : defaults.colors.background,
+      text: isColor(colors.text) ? colors.text : defaults.colors.text,
+    },
+    labels: {
+      start: label(labels.start, defaults.labels.start),
+      stop: label(labels.stop, defaults.labels.stop),
+      send: label(labels.send, defaults.labels.send),
+      messagePlaceholder: label(labels.message_placeholder, defaults.labels.messagePlaceholder),
+      pushToTalk: label(labels.push_to_talk, defaults.labels.pushToTalk),
+    },
+    idleMedia: isHttpUrl(theme.idle_media_url)
+      ? { type: theme.idle_media_type === "video" ? "video" : "image", url: theme.idle_media_url }
+      : defaults.idleMedia,
+    // hasOwn, so inherited names like "constructor" don't pass as a font
+    font: theme.font && Object.hasOwn(FONT_FAMILIES, theme.font) ? theme.font : defaults.font,
+    avatarFrame:
+      theme.avatar_frame && Object.hasOwn(AVATAR_RADIUS, theme.avatar_frame) ? theme.avatar_frame : defaults.avatarFrame,
+    backgroundImageUrl: isHttpUrl(theme.background_image_url) ? theme.background_image_url : undefined,
+  };
+};
+
+/**
+ * The CSS variables behind the `brand` colors, `font-brand` and `rounded-avatar`
+ * in tailwind.config.ts, plus the background image. Set on the widget's root element.
+ */
+export const themeStyle = (theme: WidgetTheme): CSSProperties => {
+  const [from, via, to] = theme.colors.gradient;
+  return {
+    "--brand-gradient-from": toRgbChannels(from),
+    "--brand-gradient-via": toRgbChannels(via),
+    "--brand-gradient-to": toRgbChannels(to),
+    "--brand-action": toRgbChannels(theme.colors.action),
+    "--brand-stop": toRgbChannels(theme.colors.stop),
+    "--brand-background": toRgbChannels(theme.colors.background),
+    "--brand-text": toRgbChannels(theme.colors.text),
+    "--font-brand": FONT_FAMILIES[theme.font].sans,
+    "--font-brand-mono": FONT_FAMILIES[theme.font].mono,
+    "--brand-avatar-radius": AVATAR_RADIUS[theme.avatarFrame],
+    ...(theme.backgroundImageUrl && {
+      backgroundImage: `url(${JSON.stringify(theme.backgroundImageUrl)})`,
+      backgroundSize: "cover",
+      backgroundPosition: "center",
+    }),
+  } as CSSProperties;
+};
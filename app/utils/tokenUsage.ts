@@ -0,0 +1,63 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+
+/**
+ * `usage` block of a Realtime `response.done` event.
+ */
+export interface RealtimeUsage {
+  total_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  input_token_details?: {
+    cached_tokens?: number;
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
+  output_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
+}
+
+/**
+ * Token totals of one session, as reported to the backend with `updateDuration`.
+ */
+export interface SessionTokenUsage {
+  responses: number;
+  total_tokens: number;
+  input_text_tokens: number;
+  input_audio_tokens: number;
+  input_cached_tokens: number;
+  output_text_tokens: number;
+  output_audio_tokens: number;
+}
+
+export const emptyTokenUsage = (): SessionTokenUsage => ({
+  responses: 0,
+  total_tokens: 0,
+  input_text_tokens: 0,
+  input_audio_tokens: 0,
+  input_cached_tokens: 0,
+  output_text_tokens: 0,
+  output_audio_tokens: 0,
+});
+
+export const addResponseUsage = (totals: SessionTokenUsage, usage: RealtimeUsage): SessionTokenUsage => ({
+  responses: totals.responses + 1,
+  total_tokens: totals.total_tokens + (usage.total_tokens ?? 0),
+  input_text_tokens: totals.input_text_tokens + (usage.input_token_details?.text_tokens ?? 0),
+  input_audio_tokens: totals.input_audio_tokens + (usage.input_token_details?.audio_tokens ?? 0),
+  input_cached_tokens: totals.input_cached_tokens + (usage.input_token_details?.cached_tokens ?? 0),
+  output_text_tokens: totals.output_text_tokens + (usage.output_token_details?.text_tokens ?? 0),
+  output_audio_tokens: totals.output_audio_tokens + (usage.output_token_details?.audio_tokens ?? 0),
+});
+
+/**
+ * Calls `onUsage` with the token usage of every finished response.
+ */
+export const onResponseUsage = (client: RealtimeClient, onUsage: (usage: RealtimeUsage) => void) => {
+  client.on("realtime.event", ({ source, event }: any) => {
+    if (source === "server" && event.type === "response.done" && event.response?.usage) {
+      onUsage(event.response.usage);
+    }
+  });
+};
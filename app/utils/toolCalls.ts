@@ -0,0 +1,34 @@
+import { ToolCallRecord } from "../Components/types";
+
+/**
+ * Wraps a Realtime tool handler so every invocation is reported with its
+ * arguments, result and timings. Handlers signal failure by returning `{ error }`.
+ */
+export const withToolCallLogging = <A extends Record<string, unknown>, R>(
+  name: string,
+  handler: (args: A) => Promise<R>,
+  onToolCall?: (call: ToolCallRecord) => void
+) => {
+  return async (args: A): Promise<R> => {
+    const startedAt = Date.now();
+    const report = (fields: Pick<ToolCallRecord, "result" | "error">) =>
+      onToolCall?.({
+        id: `${name}-${startedAt}`,
+        name,
+        arguments: args,
+        startedAt,
+        endedAt: Date.now(),
+        ...fields,
+      });
+
+    try {
+      const result = await handler(args);
+      const error = (result as { error?: unknown } | null)?.error;
+      report({ result, error: typeof error === "string" ? error : undefined });
+      return result;
+    } catch (err) {
+      report({ error: (err as Error).message });
+      throw err;
+    }
+  };
+};
@@ -0,0 +1,182 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+import { ToolCallRecord } from "../Components/types";
+import { runToolWebhook } from "../services/toolWebhook";
+import { ToolDefinition, ToolHandlerConfig } from "../services/validateCustomer";
+import { SessionError, toSessionError } from "./errors";
+import { createLogger } from "./logger";
+import { withToolCallLogging } from "./toolCalls";
+
+const log = createLogger("Tools");
+
+/**
+ * Tools used when the customer config does not define its own.
+ */
+export const DEFAULT_TOOLS: ToolDefinition[] = [
+  {
+    name: "get_product_details",
+    description:
+      "retrieves product details from knowledge base about the product like price, features, and description",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "This is the question about the product that user needs from knowledge base",
+        },
+        userid: {
+          type: "string",
+          description: "This the user id that this llm will send to knowledge base llm. Send the current user id",
+        },
+      },
+      required: ["query", "userid"],
+    },
+    handler: { type: "http_webhook", url: "https://holoagent.app.n8n.cloud/webhook/query" },
+  },
+  {
+    name: "play_product_video",
+    description:
+      "Plays a video based on the provided video_url or fetches a video URL from the knowledge base. Supports S3 URLs (.mp4, .mov) and external URLs (YouTube, Vimeo, etc.).",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description:
+            "The query about the product video to send to the knowledge base if video_url is not provided.",
+        },
+        video_url: {
+          type: "string",
+          description:
+            "The video URL to play. Can be an S3 URL (.mp4, .mov) or an external URL (YouTube, Vimeo, etc.). If not provided, the video will be fetched using the query.",
+        },
+        userid: {
+          type: "string",
+          description: "The user ID to send to the knowledge base.",
+        },
+      },
+      required: ["query", "userid"],
+      additionalProperties: false,
+    },
+    handler: {
+      type: "ui_action",
+      action: "play_video",
+      lookup_url: "https://holoagent.app.n8n.cloud/webhook/video",
+    },
+  },
+];
+
+/**
+ * What the widget exposes to tool handlers.
+ */
+export interface ToolContext {
+  userId: string;
+  /** Authorizes webhook calls through `/api/tools`. */
+  sessionToken: string;
+  playVideo: (videoUrl: string) => void;
+  onError: (error: SessionError) => void;
+  onToolCall?: (call: ToolCallRecord) => void;
+}
+
+type ToolArgs = Record<string, unknown>;
+
+/**
+ * Whether the video player can handle the URL (S3 files or known video hosts).
+ */
+export const isPlayableVideoUrl = (url: string) => {
+  const isS3Video = url.endsWith(".mp4") || url.endsWith(".mov");
+  const isExternalVideo = url.includes("youtube.com") || url.includes("vimeo.com") || url.includes("instagram.com");
+  return isS3Video || isExternalVideo;
+};
+
+const postToWebhook = (url: string, body: ToolArgs) =>
+  fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+// The route handler calls the webhook, so its headers never reach the browser
+const runWebhook = async (name: string, args: ToolArgs, context: ToolContext) => {
+  try {
+    return await runToolWebhook(context.sessionToken, name, args);
+  } catch (err) {
+    log.error(`Error in ${name}:`, err);
+    return { error: `Failed to run ${name}`, details: (err as Error).message };
+  }
+};
+
+const runPlayVideo = async (
+  name: string,
+  handler: Extract<ToolHandlerConfig, { type: "ui_action" }>,
+  args: ToolArgs,
+  context: ToolContext
+) => {
+  try {
+    const videoUrlArg = typeof args.video_url === "string" ? args.video_url : undefined;
+    if (videoUrlArg) {
+      if (!isPlayableVideoUrl(videoUrlArg)) throw new Error("Invalid video URL format");
+      context.playVideo(videoUrlArg);
+      return { message: "Playing video from provided URL", video_url: videoUrlArg };
+    }
+
+    if (!handler.lookup_url) throw new Error("No video URL provided");
+
+    // Fetch video from knowledge base if no video_url was given
+    const result = await postToWebhook(handler.lookup_url, { query: args.query, userid: context.userId });
+    if (!result.ok) {
+      throw new Error(`Failed to fetch video: ${result.statusText}`);
+    }
+
+    const responseData = await result.json();
+    const videoUrl = responseData?.response;
+    if (typeof videoUrl !== "string") throw new Error("Missing video URL in response");
+    if (!isPlayableVideoUrl(videoUrl)) throw new Error("Invalid video URL in response");
+
+    context.playVideo(videoUrl);
+    return { message: "Video fetched and playing", video_url: videoUrl };
+  } catch (err) {
+    log.error(`Error in ${name}:`, err);
+    // The model is told through the tool result; the visitor only gets a quiet note
+    context.onError(toSessionError("tool_failed", (err as Error).message));
+    return { error: "Failed to fetch or play video", details: (err as Error).message };
+  }
+};
+
+/**
+ * Builds the runtime handler for a tool definition.
+ */
+const createToolHandler = (tool: ToolDefinition, context: ToolContext) => {
+  const { handler } = tool;
+  return async (args: ToolArgs): Promise<unknown> => {
+    switch (handler.type) {
+      case "http_webhook":
+        return runWebhook(tool.name, args, context);
+      case "ui_action":
+        return runPlayVideo(tool.name, handler, args, context);
+      case "static":
+        return handler.response;
+      default:
+        return { error: `Unsupported handler for ${tool.name}` };
+    }
+  };
+};
+
+/**
+ * Registers the customer's tools on the Realtime client.
+ */
+export const registerTools = (
+  client: RealtimeClient,
+  tools: ToolDefinition[],
+  context: ToolContext
+) => {
+  tools.forEach((tool) => {
+    client.addTool(
+      {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+      withToolCallLogging(tool.name, createToolHandler(tool, context), context.onToolCall)
+    );
+  });
+};
@@ -0,0 +1,57 @@
+import { TranscriptTurn } from "../Components/types";
+
+/**
+ * Inserts or updates the turn for a Realtime conversation item as its
+ * transcript streams in. Items without any text yet are skipped.
+ */
+export const upsertTranscriptTurn = (turns: TranscriptTurn[], item: any): TranscriptTurn[] => {
+  if (item.type !== "message" || (item.role !== "user" && item.role !== "assistant")) {
+    return turns;
+  }
+
+  const text: string = item.formatted?.transcript || item.formatted?.text || "";
+  const isComplete = item.status === "completed";
+  const index = turns.findIndex((turn) => turn.id === item.id);
+
+  if (index === -1) {
+    if (!text) return turns;
+    return [
+      ...turns,
+      { id: item.id, role: item.role, text, timestamp: Date.now(), isComplete },
+    ];
+  }
+
+  const existing = turns[index];
+  // An interrupted turn keeps the text it was cut at, even if the item changes afterwards
+  if (existing.interrupted) return turns;
+  if (existing.text === text && existing.isComplete === isComplete) return turns;
+
+  const next = turns.slice();
+  next[index] = { ...existing, text: text || existing.text, isComplete };
+  return next;
+};
+
+/**
+ * Flags an assistant turn that the user barged in on. `heardFraction` is the share
+ * of its audio that was actually played; the cut is placed on a word boundary.
+ */
+export const markTranscriptInterrupted = (
+  turns: TranscriptTurn[],
+  itemId: string,
+  heardFraction: number
+): TranscriptTurn[] => {
+  const index = turns.findIndex((turn) => turn.id === itemId);
+  if (index === -1 || turns[index].interrupted) return turns;
+
+  const turn = turns[index];
+  const fraction = Math.max(0, Math.min(1, heardFraction));
+  let heardChars = Math.round(turn.text.length * fraction);
+  if (heardChars > 0) {
+    const wordEnd = turn.text.indexOf(" ", heardChars);
+    heardChars = wordEnd === -1 ? turn.text.length : wordEnd;
+  }
+
+  const next = turns.slice();
+  next[index] = { ...turn, interrupted: true, heardChars };
+  return next;
+};
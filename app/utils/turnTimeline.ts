@@ -0,0 +1,115 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+
+export type TurnEventType =
+  | "speech_stopped"
+  | "response_requested"
+  | "first_delta"
+  | "first_audio_sent"
+  | "tool_call_start"
+  | "tool_call_end"
+  | "interrupted";
+
+export interface TurnEvent {
+  type: TurnEventType;
+  /** Epoch milliseconds. */
+  at: number;
+  /** e.g. the tool name for tool call events. */
+  detail?: string;
+}
+
+/**
+ * One exchange, from the end of the user's input to the end of the answer.
+ */
+export interface TurnRecord {
+  id: number;
+  startedAt: number;
+  events: TurnEvent[];
+}
+
+export interface TurnTimeline {
+  /** Starts a new turn with its opening event. */
+  startTurn: (type: TurnEventType, detail?: string) => void;
+  /** Adds an event to the current turn; `once` skips it if the turn already has one of that type. */
+  record: (type: TurnEventType, options?: { detail?: string; at?: number; once?: boolean }) => void;
+  /** Whether the current turn is still waiting for the first response delta. */
+  isAwaitingResponse: () => boolean;
+  getTurns: () => TurnRecord[];
+  clear: () => void;
+}
+
+// Older turns are dropped; the overlay only needs the recent ones
+const MAX_TURNS = 20;
+
+/**
+ * Collects timestamped events per turn, so the latency of each answer can be
+ * broken down into model, audio and tool time.
+ */
+export const createTurnTimeline = (onChange?: (turns: TurnRecord[]) => void): TurnTimeline => {
+  let turns: TurnRecord[] = [];
+  let nextId = 1;
+
+  const current = () => turns[turns.length - 1];
+  const notify = () => onChange?.(turns);
+
+  const startTurn = (type: TurnEventType, detail?: string) => {
+    const at = Date.now();
+    turns = [...turns, { id: nextId++, startedAt: at, events: [{ type, at, detail }] }].slice(-MAX_TURNS);
+    notify();
+  };
+
+  const record: TurnTimeline["record"] = (type, { detail, at = Date.now(), once = false } = {}) => {
+    const turn = current();
+    if (!turn) return;
+    if (once && turn.events.some((event) => event.type === type)) return;
+
+    const events = [...turn.events, { type, at, detail }].sort((a, b) => a.at - b.at);
+    turns = [...turns.slice(0, -1), { ...turn, events }];
+    notify();
+  };
+
+  const isAwaitingResponse = () => {
+    const turn = current();
+    return Boolean(turn) && !turn.events.some((event) => event.type === "first_delta");
+  };
+
+  return {
+    startTurn,
+    record,
+    isAwaitingResponse,
+    getTurns: () => turns,
+    clear: () => {
+      turns = [];
+      notify();
+    },
+  };
+};
+
+/**
+ * Milliseconds from the start of the turn to its first event of the given type.
+ */
+export const timeToEvent = (turn: TurnRecord, type: TurnEventType) => {
+  const event = turn.events.find((e) => e.type === type);
+  return event ? event.at - turn.startedAt : undefined;
+};
+
+/**
+ * Feeds the Realtime events that open and advance a turn into the timeline:
+ * the end of the user's speech, explicit response requests (push-to-talk, text,
+ * the greeting) and the first delta of the answer.
+ */
+export const trackRealtimeTurns = (client: RealtimeClient, timeline: TurnTimeline) => {
+  client.on("realtime.event", ({ source, event }: any) => {
+    if (source === "server" && event.type === "input_audio_buffer.speech_stopped") {
+      timeline.startTurn("speech_stopped");
+    } else if (source === "client" && event.type === "response.create") {
+      // With server VAD the turn already started at speech_stopped
+      if (timeline.isAwaitingResponse()) {
+        timeline.record("response_requested", { once: true });
+      } else {
+        timeline.startTurn("response_requested");
+      }
+    } else if (source === "server" && event.type.startsWith("response.") && event.type.endsWith(".delta")) {
+      timeline.record("first_delta", { once: true });
+    }
+  });
+};
@@ -0,0 +1,545 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { RealtimeClient } from "@openai/realtime-api-beta";
+import { SimliClient } from "simli-client";
+import { ToolCallRecord, TranscriptTurn } from "../Components/types";
+import { ToolDefinition } from "../services/validateCustomer";
+import { AudioScheduler, AudioSchedulerStats, createAudioScheduler } from "./audioScheduler";
+import { createRealtimeClient, onConversationLimitReached } from "./createRealtimeClient";
+import { EmbedBridge } from "./embedBridge";
+import { classifyError, SessionError, toSessionError } from "./errors";
+import { createLogger, isLogLevelEnabled } from "./logger";
+import { cancelAtPlaybackPosition } from "./playbackTracker";
+import { onRealtimeClose, replayTranscript, retryWithBackoff, waitForSimliConnection } from "./reconnect";
+import { speakWrapUpLine } from "./sessionLimit";
+import { createStartupTimer, StartupMark, StartupTimer } from "./startupTimer";
+import { createStreamingResampler, StreamingResampler } from "./streamingResampler";
+import { onResponseUsage, RealtimeUsage } from "./tokenUsage";
+import { registerTools } from "./toolRegistry";
+import { markTranscriptInterrupted, upsertTranscriptTurn } from "./transcript";
+import { createTurnTimeline, trackRealtimeTurns, TurnRecord, TurnTimeline } from "./turnTimeline";
+
+const log = createLogger("AvatarSession");
+
+export type SessionState = "idle" | "connecting" | "live" | "reconnecting" | "ending" | "ended";
+
+const TRANSITIONS: Record<SessionState, SessionState[]> = {
+  idle: ["connecting"],
+  connecting: ["live", "ending"],
+  live: ["reconnecting", "ending"],
+  reconnecting: ["live", "ending"],
+  ending: ["ended"],
+  ended: ["connecting"],
+};
+
+// States in which the session holds open connections
+const ACTIVE_STATES: SessionState[] = ["connecting", "live", "reconnecting"];
+
+/**
+ * Props every interaction mode takes from `DynamicInteractionPage`.
+ */
+export interface AvatarSessionProps {
+  simli_faceid: string;
+  openai_voice: "alloy" | "ash" | "ballad" | "coral" | "echo" | "sage" | "shimmer" | "verse";
+  openai_model: string;
+  initialPrompt: string;
+  customerToken: string;
+  tools: ToolDefinition[];
+  userId: string;
+  onStart: () => void;
+  onClose: () => void;
+  onTranscriptUpdate?: (turns: TranscriptTurn[]) => void;
+  onToolCall?: (call: ToolCallRecord) => void;
+  onLimitReached?: () => void;
+  onUsage?: (usage: RealtimeUsage) => void;
+  /** Called when the session ends on an error, so it can be reported. */
+  onFatalError?: (error: SessionError) => void;
+  /** Set by the parent to end the session, e.g. when the plan ran out. */
+  stopRequested?: boolean;
+  /** Set by the parent when the plan is about to run out; the avatar says it once. */
+  wrapUpLine?: string | null;
+  /** Drops microphone input while set, e.g. when the host page mutes the widget. */
+  muted?: boolean;
+  /** Called after a tool opened a video, for the host page of an embedded widget. */
+  onVideoPlay?: (videoUrl: string) => void;
+  /** The host page of an embedded widget; its start, stop and send_text commands run here. */
+  embedBridge?: EmbedBridge | null;
+}
+
+export interface AvatarSessionOptions extends AvatarSessionProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  audioRef: RefObject<HTMLAudioElement>;
+  /** Mode-specific Realtime session settings, e.g. turn detection. */
+  sessionConfig: Record<string, unknown>;
+  /** Called when the model asks the widget to play a video. */
+  onPlayVideo: (videoUrl: string) => void;
+  /** Runs once the session goes live, right before the greeting. */
+  onLive?: () => void;
+  /** Runs while the session tears down, before the clients are closed. */
+  onEnd?: () => void;
+}
+
+export interface AvatarSession {
+  state: SessionState;
+  error: SessionError | null;
+  setError: (error: SessionError | null) => void;
+  transcript: TranscriptTurn[];
+  /** Whether the avatar is voicing an answer, from the audio scheduler. */
+  isAssistantSpeaking: boolean;
+  /** Timing of the current session's startup phases, from Start to the first audio. */
+  startupMarks: StartupMark[];
+  /** Latency timeline of the recent turns, newest last. */
+  turns: TurnRecord[];
+  /** Current state of the audio queue towards Simli. */
+  getAudioStats: () => AudioSchedulerStats;
+  /** The current Realtime client; replaced when the connection is re-established. */
+  openAIClientRef: RefObject<RealtimeClient | null>;
+  start: () => Promise<void>;
+  stop: () => void;
+  /** Cuts off the answer being spoken, truncating it at what the user heard. */
+  interrupt: () => void;
+  /** Interrupts only while an answer is being generated or spoken. */
+  interruptIfResponding: () => void;
+  /** Sends a user text message, cutting off any answer still being spoken. Returns false when not connected. */
+  sendText: (text: string) => boolean;
+  /** Whether assistant audio is still queued or playing. */
+  hasPendingAudio: () => boolean;
+  /** Forwards a microphone frame; frames captured while the Realtime socket is down are dropped. */
+  appendInputAudio: (pcm: Int16Array) => void;
+}
+
+/**
+ * Owns one avatar conversation from Start to Stop: a fresh Simli and Realtime
+ * client per session, the audio path between them, the transcript, reconnects
+ * and teardown. Modes only add their input handling (microphone, push-to-talk,
+ * text) through `sessionConfig`, `onLive` and `onEnd`.
+ *
+ * Session methods read the latest options and clients through refs, so they are
+ * stable across renders and safe to hand to event listeners.
+ */
+export const useAvatarSession = (options: AvatarSessionOptions): AvatarSession => {
+  const [state, setState] = useState<SessionState>("idle");
+  const [error, setError] = useState<SessionError | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
+  const [isAssistantSpeaking, setIsAssistantSpeaking] = useState<boolean>(false);
+  const [startupMarks, setStartupMarks] = useState<StartupMark[]>([]);
+  const [turns, setTurns] = useState<TurnRecord[]>([]);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const stateRef = useRef<SessionState>("idle");
+  const simliClientRef = useRef<SimliClient | null>(null);
+  const openAIClientRef = useRef<RealtimeClient | null>(null);
+  // Created once, on the first render, and kept for the lifetime of the hook
+  const turnTimelineRef = useRef<TurnTimeline | null>(null);
+  if (!turnTimelineRef.current) turnTimelineRef.current = createTurnTimeline(setTurns);
+  const turnTimeline = turnTimelineRef.current;
+  // Assistant audio arrives at 24kHz, Simli expects 16kHz
+  const resamplerRef = useRef<StreamingResampler | null>(null);
+  if (!resamplerRef.current) {
+    resamplerRef.current = createStreamingResampler({ inputSampleRate: 24000, outputSampleRate: 16000 });
+  }
+  const resampler = resamplerRef.current;
+  const audioSchedulerRef = useRef<AudioScheduler | null>(null);
+  if (!audioSchedulerRef.current) {
+    audioSchedulerRef.current = createAudioScheduler({
+      sampleRate: 16000,
+      send: (pcm) => {
+        simliClientRef.current?.sendAudioData(new Uint8Array(pcm.buffer));
+        turnTimeline.record("first_audio_sent", { once: true });
+      },
+      onSpeakingChange: setIsAssistantSpeaking,
+    });
+  }
+  const audioScheduler = audioSchedulerRef.current;
+  const interruptedItemIdRef = useRef<string | null>(null);
+  const transcriptRef = useRef<TranscriptTurn[]>([]);
+  const startupTimerRef = useRef<StartupTimer | null>(null);
+  // Bumped on every Start, so a client still connecting for an ended session is discarded
+  const generationRef = useRef<number>(0);
+
+  const transition = (next: SessionState) => {
+    const current = stateRef.current;
+    if (!TRANSITIONS[current].includes(next)) {
+      log.warn(`Ignoring session transition ${current} -> ${next}`);
+      return false;
+    }
+    stateRef.current = next;
+    setState(next);
+    return true;
+  };
+
+  /**
+   * Handles conversation updates, including user and assistant messages.
+   */
+  const handleConversationUpdate = (event: any) => {
+    const { item, delta } = event;
+    setTranscript((turns) => upsertTranscriptTurn(turns, item));
+
+    if (item.type === "message" && item.role === "assistant") {
+      // Audio still streaming in for an item the user cut off must not be played
+      if (delta && delta.audio && item.id !== interruptedItemIdRef.current) {
+        const downsampledAudio = resampler.process(delta.audio);
+        audioScheduler.enqueue(item.id, downsampledAudio);
+        markFirstAudio();
+      }
+      if (item.status === "completed") {
+        audioScheduler.flush();
+      }
+    }
+  };
+
+  /**
+   * Closes the startup timeline once the greeting's first audio arrives.
+   */
+  const markFirstAudio = () => {
+    const timer = startupTimerRef.current;
+    if (!timer) return;
+    startupTimerRef.current = null;
+    timer.mark("first_audio");
+    log.info("Startup timings:", timer.summary());
+  };
+
+  const interrupt = useCallback(() => {
+    log.warn("User interrupted the conversation");
+    turnTimeline.record("interrupted", { once: true });
+    const position = audioScheduler.getPosition();
+    simliClientRef.current?.ClearBuffer();
+    audioScheduler.clear();
+    if (openAIClientRef.current) {
+      cancelAtPlaybackPosition(openAIClientRef.current, position);
+    }
+    if (position) {
+      interruptedItemIdRef.current = position.itemId;
+      setTranscript((turns) => markTranscriptInterrupted(turns, position.itemId, position.playedMs / position.receivedMs));
+    }
+    resampler.reset();
+  }, []);
+
+  /**
+   * Interrupts only when there is an answer to cut off: one still being generated
+   * or audio still queued or playing. Otherwise the last answer is left as it is.
+   */
+  const interruptIfResponding = useCallback(() => {
+    const client = openAIClientRef.current;
+    const lastItem = client?.conversation.getItems().slice(-1)[0];
+    const isGenerating = lastItem?.role === "assistant" && lastItem.status === "in_progress";
+    if (isGenerating || audioScheduler.hasPendingAudio()) {
+      interrupt();
+    }
+  }, [interrupt]);
+
+  /**
+   * Creates and starts connecting a fresh Simli client. Its drop events only
+   * count while it is still the session's current client.
+   */
+  const createSimliClient = () => {
+    const { videoRef, audioRef, simli_faceid } = optionsRef.current;
+    if (!videoRef.current || !audioRef.current) {
+      throw new Error("Avatar video element is not mounted");
+    }
+
+    const client = new SimliClient();
+    client.Initialize({
+      apiKey: process.env.NEXT_PUBLIC_SIMLI_API_KEY,
+      faceID: simli_faceid,
+      handleSilence: true,
+      maxSessionLength: 30600,
+      maxIdleTime: 30600,
+      videoRef: videoRef.current,
+      audioRef: audioRef.current,
+      enableConsoleLogs: isLogLevelEnabled("debug"),
+    } as any); // `any` due to unknown SimliClient types
+
+    const onDrop = () => {
+      if (client === simliClientRef.current) reconnect("simli");
+    };
+    client.on("disconnected", onDrop);
+    client.on("failed", onDrop);
+
+    simliClientRef.current = client;
+    return Promise.all([waitForSimliConnection(client), client.start()]);
+  };
+
+  /**
+   * Creates a Realtime client with this session's settings, tools and listeners,
+   * connects it and makes it the current client.
+   */
+  const connectOpenAIClient = async () => {
+    const {
+      customerToken,
+      openai_model,
+      initialPrompt,
+      openai_voice,
+      sessionConfig,
+      tools,
+      simli_faceid,
+      onToolCall,
+      onLimitReached,
+      onUsage,
+    } = optionsRef.current;
+    const generation = generationRef.current;
+    const client = await createRealtimeClient(customerToken, openai_model);
+    startupTimerRef.current?.mark("realtime_client_created");
+
+    await client.updateSession({
+      instructions: initialPrompt,
+      voice: openai_voice,
+      ...sessionConfig,
+    });
+    startupTimerRef.current?.mark("realtime_session_configured");
+
+    if (generation !== generationRef.current || !ACTIVE_STATES.includes(stateRef.current)) {
+      throw new Error("Session ended while connecting");
+    }
+
+    registerTools(client, tools, {
+      userId: simli_faceid,
+      sessionToken: customerToken,
+      playVideo: (videoUrl) => {
+        optionsRef.current.onPlayVideo(videoUrl);
+        optionsRef.current.onVideoPlay?.(videoUrl);
+      },
+      onError: setError,
+      onToolCall: (call) => {
+        turnTimeline.record("tool_call_start", { detail: call.name, at: call.startedAt });
+        turnTimeline.record("tool_call_end", { detail: call.name, at: call.endedAt });
+        onToolCall?.(call);
+      },
+    });
+    trackRealtimeTurns(client, turnTimeline);
+    if (onLimitReached) {
+      onConversationLimitReached(client, onLimitReached);
+    }
+    if (onUsage) {
+      onResponseUsage(client, onUsage);
+    }
+
+    client.on("conversation.updated", handleConversationUpdate);
+    client.on("conversation.interrupted", interrupt);
+
+    // Only a drop of the current client counts; replaced or stopped clients close on purpose
+    onRealtimeClose(client, () => {
+      if (client === openAIClientRef.current) reconnect("openai");
+    });
+
+    openAIClientRef.current = client;
+    await client.connect();
+    startupTimerRef.current?.mark("realtime_connected");
+    return client;
+  };
+
+  /**
+   * Shows the error and reports it when it ended the session.
+   */
+  const fail = (sessionError: SessionError) => {
+    setError(sessionError);
+    if (sessionError.fatal) {
+      optionsRef.current.onFatalError?.(sessionError);
+    }
+  };
+
+  /**
+   * Closes both clients and ends the session. Safe to call in any state.
+   */
+  const teardown = () => {
+    if (!ACTIVE_STATES.includes(stateRef.current) || !transition("ending")) return;
+    log.info("Stopping interaction...");
+    optionsRef.current.onEnd?.();
+    audioScheduler.clear();
+
+    // Clear the refs first so the close events are not taken for drops
+    const simli = simliClientRef.current;
+    const openAI = openAIClientRef.current;
+    simliClientRef.current = null;
+    openAIClientRef.current = null;
+    simli?.close();
+    openAI?.disconnect();
+
+    transition("ended");
+    optionsRef.current.onClose();
+    log.info("Interaction stopped");
+  };
+
+  /**
+   * Restores a dropped connection with backoff while the avatar shows "reconnecting".
+   * A new Realtime session is seeded with the recent transcript; if nothing works
+   * the interaction is stopped.
+   */
+  const reconnect = async (lost: "simli" | "openai") => {
+    if (stateRef.current !== "live" || !transition("reconnecting")) return;
+    const name = lost === "simli" ? "Simli" : "OpenAI";
+    log.warn(`${name} connection lost, reconnecting...`);
+    audioScheduler.clear();
+    resampler.reset();
+    // Read through a function: a stop while retrying changes the state under this closure
+    const isReconnecting = () => stateRef.current === "reconnecting";
+
+    const recovered = await retryWithBackoff(async () => {
+      if (lost === "simli") {
+        const previous = simliClientRef.current;
+        simliClientRef.current = null;
+        previous?.close();
+        await createSimliClient();
+      } else {
+        const previous = openAIClientRef.current;
+        openAIClientRef.current = null;
+        previous?.disconnect();
+        const client = await connectOpenAIClient();
+        replayTranscript(client, transcriptRef.current);
+      }
+    }, () => !isReconnecting());
+
+    if (!isReconnecting()) return;
+    if (recovered) {
+      log.info(`${name} connection restored`);
+      transition("live");
+    } else {
+      teardown();
+      fail(toSessionError("connection_lost", `${name} could not be reconnected`));
+    }
+  };
+
+  /**
+   * Connects Simli and the Realtime session in parallel and goes live once both
+   * are up. The greeting is held until then, so the avatar can voice it from
+   * the first word.
+   */
+  const start = useCallback(async () => {
+    if (!transition("connecting")) return;
+    const generation = ++generationRef.current;
+    setError(null);
+    setTranscript([]);
+    setStartupMarks([]);
+    turnTimeline.clear();
+    interruptedItemIdRef.current = null;
+    resampler.reset();
+    audioScheduler.clear();
+    startupTimerRef.current = createStartupTimer(setStartupMarks);
+    optionsRef.current.onStart();
+
+    log.info("Starting...");
+    const simliReady = Promise.resolve()
+      .then(createSimliClient)
+      .then(() => {
+        startupTimerRef.current?.mark("simli_connected");
+        log.info("SimliClient connected");
+      })
+      .catch((error) => Promise.reject(classifyError(error, "avatar_connection")));
+
+    log.info("Initializing OpenAI client...");
+    const openAIReady = connectOpenAIClient()
+      .then((client) => {
+        log.info("OpenAI Client connected successfully");
+        return client;
+      })
+      .catch((error) => Promise.reject(classifyError(error, "agent_connection")));
+
+    try {
+      const [, client] = await Promise.all([simliReady, openAIReady]);
+      if (generation !== generationRef.current || !transition("live")) return;
+      startupTimerRef.current?.mark("ready");
+      optionsRef.current.onLive?.();
+      client.createResponse();
+    } catch (error) {
+      // Stopping during startup makes the pending connection fail; that is not an error
+      if (generation !== generationRef.current || stateRef.current !== "connecting") return;
+      const sessionError = error as SessionError;
+      log.error(`Error starting interaction (${sessionError.category}):`, sessionError.detail);
+      teardown();
+      fail(sessionError);
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    setError(null);
+    teardown();
+  }, []);
+
+  const getAudioStats = useCallback(() => audioScheduler.getStats(), []);
+
+  const hasPendingAudio = useCallback(() => audioScheduler.hasPendingAudio(), []);
+
+  const appendInputAudio = useCallback((pcm: Int16Array) => {
+    const client = openAIClientRef.current;
+    if (client?.isConnected() && !optionsRef.current.muted) client.appendInputAudio(pcm);
+  }, []);
+
+  const sendText = useCallback((text: string) => {
+    const client = openAIClientRef.current;
+    if (!text || !client?.isConnected()) return false;
+
+    interruptIfResponding();
+    client.sendUserMessageContent([{ type: "input_text", text }]);
+    return true;
+  }, [interruptIfResponding]);
+
+  // Keep the parent's copy of the transcript current so it can be persisted on close
+  useEffect(() => {
+    transcriptRef.current = transcript;
+    optionsRef.current.onTranscriptUpdate?.(transcript);
+  }, [transcript]);
+
+  const { stopRequested, wrapUpLine, initialPrompt, embedBridge } = options;
+  const isLive = state === "live";
+  const isConnected = isLive || state === "reconnecting";
+
+  useEffect(() => {
+    if (stopRequested && isConnected) {
+      stop();
+    }
+  }, [stopRequested, isConnected, stop]);
+
+  useEffect(() => {
+    if (wrapUpLine && isLive && openAIClientRef.current) {
+      speakWrapUpLine(openAIClientRef.current, wrapUpLine).catch((err) =>
+        log.warn("Could not say the wrap-up line:", err)
+      );
+    }
+  }, [wrapUpLine, isLive]);
+
+  // Instructions change mid-session when the host page sets its context
+  useEffect(() => {
+    const client = openAIClientRef.current;
+    if (stateRef.current !== "live" || !client) return;
+    try {
+      client.updateSession({ instructions: initialPrompt });
+    } catch (err) {
+      log.warn("Could not update the instructions:", err);
+    }
+  }, [initialPrompt]);
+
+  useEffect(() => {
+    if (!embedBridge) return;
+    return embedBridge.onCommand((command) => {
+      if (command.type === "start") {
+        start();
+      } else if (command.type === "stop") {
+        stop();
+      } else if (command.type === "send_text" && !sendText(command.text)) {
+        log.warn("Ignoring send_text from the host page while not connected");
+      }
+    });
+  }, [embedBridge, start, stop, sendText]);
+
+  // A mode switch unmounts the widget mid-session; end the session with it
+  useEffect(() => () => teardown(), []);
+
+  return {
+    state,
+    error,
+    setError,
+    transcript,
+    isAssistantSpeaking,
+    startupMarks,
+    turns,
+    getAudioStats,
+    openAIClientRef,
+    start,
+    stop,
+    interrupt,
+    interruptIfResponding,
+    sendText,
+    hasPendingAudio,
+    appendInputAudio,
+  };
+};
@@ -0,0 +1,85 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+// Size of the avatar while it floats in the corner during a video, and its gap to the edge
+const FLOATING_SIZE = { regular: 300, compact: 140 };
+const FLOATING_MARGIN = { regular: 20, compact: 12 };
+
+/**
+ * Lets the visitor drag the avatar while it floats in the bottom-right corner
+ * during a video. The position is an offset from that corner, kept inside the
+ * viewport, which in the embed is the widget's iframe rather than the host page.
+ */
+export const useDraggableAvatar = ({ enabled, compact }: { enabled: boolean; compact: boolean }) => {
+  const [position, setPosition] = useState<Position>({ x: 0, y: 0 });
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const dragStartRef = useRef<Position>({ x: 0, y: 0 });
+
+  const size = compact ? FLOATING_SIZE.compact : FLOATING_SIZE.regular;
+  const margin = compact ? FLOATING_MARGIN.compact : FLOATING_MARGIN.regular;
+
+  const clamp = useCallback(
+    ({ x, y }: Position): Position => {
+      const maxLeft = window.innerWidth - size - margin;
+      const maxUp = window.innerHeight - size - margin;
+      return {
+        x: Math.min(margin, Math.max(-maxLeft, x)),
+        y: Math.min(margin, Math.max(-maxUp, y)),
+      };
+    },
+    [size, margin]
+  );
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    setIsDragging(true);
+    dragStartRef.current = {
+      x: e.clientX - position.x,
+      y: e.clientY - position.y,
+    };
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setPosition(
+        clamp({
+          x: e.clientX - dragStartRef.current.x,
+          y: e.clientY - dragStartRef.current.y,
+        })
+      );
+    };
+    const handleMouseUp = () => setIsDragging(false);
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [isDragging, clamp]);
+
+  // A resized window or embed panel must not leave the avatar out of view
+  useEffect(() => {
+    const handleResize = () => setPosition((current) => clamp(current));
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, [clamp]);
+
+  const resetPosition = useCallback(() => setPosition({ x: 0, y: 0 }), []);
+
+  const floatingStyle: React.CSSProperties = {
+    width: size,
+    height: size,
+    left: `calc(100% - ${size + margin}px + ${position.x}px)`,
+    top: `calc(100% - ${size + margin}px + ${position.y}px)`,
+  };
+
+  return { isDragging, handleMouseDown, resetPosition, floatingStyle };
+};
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchAllowedOrigins } from "@/app/services/validateCustomer";
+import { isTokenRevoked } from "@/app/services/tokenRevocation";
+import { frameAncestorsDirective } from "@/app/utils/allowedOrigins";
+import {
+  CUSTOMER_ID_HEADER,
+  FACE_ID_HEADER,
+  SCOPES_HEADER,
+  VERIFIED_HEADERS,
+  verifySessionToken,
+} from "@/app/utils/sessionToken";
+
+const TOKEN_SECRET = process.env.HOLOAGENT_TOKEN_SECRET;
+
+// Embed checks run on every widget load; the customer's list changes rarely
+const ALLOWED_ORIGINS_TTL_MS = 60_000;
+// A revoked token stops working within this long
+const REVOCATION_TTL_MS = 30_000;
+const CACHE_SIZE = 500;
+
+type Cache<T> = Map<string, { value: T; expiresAt: number }>;
+
+const allowedOriginsCache: Cache<string[] | undefined> = new Map();
+const revocationCache: Cache<boolean> = new Map();
+
+const cached = async <T>(cache: Cache<T>, key: string, ttlMs: number, load: () => Promise<T>): Promise<T> => {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) return entry.value;
+
+  const value = await load();
+  if (cache.size >= CACHE_SIZE) cache.clear();
+  cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+  return value;
+};
+
+// `code` is the error category the widget shows, see app/utils/errors.ts
+const rejectToken = (status: 401 | 403, code: "token_missing" | "token_invalid" | "token_expired", message: string) =>
+  NextResponse.json({ status: 0, message, code }, { status });
+
+/**
+ * Verifies the session token of an API request, sent as a bearer token, and hands
+ * its claims to the route handler as request headers.
+ */
+const authenticateApiRequest = async (req: NextRequest) => {
+  // Claims may only come from here, never from the browser
+  const headers = new Headers(req.headers);
+  VERIFIED_HEADERS.forEach((name) => headers.delete(name));
+
+  if (!TOKEN_SECRET) {
+    console.error("HOLOAGENT_TOKEN_SECRET is not set; refusing API requests");
+    return NextResponse.json({ status: 0, message: "Token verification is not configured" }, { status: 500 });
+  }
+
+  const token = req.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) return rejectToken(401, "token_missing", "A session token is required");
+
+  const result = await verifySessionToken(token, TOKEN_SECRET);
+  if (!result.valid) {
+    return result.reason === "expired"
+      ? rejectToken(403, "token_expired", "The session token has expired")
+      : rejectToken(401, "token_invalid", "The session token is not valid");
+  }
+
+  const { claims } = result;
+  try {
+    if (await cached(revocationCache, claims.jti, REVOCATION_TTL_MS, () => isTokenRevoked(claims.jti))) {
+      return rejectToken(403, "token_expired", "The session token has been revoked");
+    }
+  } catch (err) {
+    console.error("Failed to check token revocation", err);
+    return NextResponse.json({ status: 0, message: "Failed to check the session token" }, { status: 502 });
+  }
+
+  headers.set(CUSTOMER_ID_HEADER, claims.sub);
+  headers.set(FACE_ID_HEADER, claims.face_id);
+  headers.set(SCOPES_HEADER, claims.scopes.join(","));
+  return NextResponse.next({ request: { headers } });
+};
+
+/**
+ * Limits which sites may frame the widget to the customer's `allowed_origins`,
+ * through a `frame-ancestors` CSP. The widget checks the same list itself
+ * before starting, for browsers that ignore the header.
+ */
+const withFrameAncestors = async (req: NextRequest) => {
+  const response = NextResponse.next();
+  const token = req.nextUrl.searchParams.get("token");
+  if (!token || !TOKEN_SECRET) return response;
+
+  try {
+    // An invalid token gets no header; the page's API calls are refused anyway
+    const result = await verifySessionToken(token, TOKEN_SECRET);
+    if (!result.valid) return response;
+
+    const customerId = result.claims.sub;
+    const allowedOrigins = await cached(allowedOriginsCache, customerId, ALLOWED_ORIGINS_TTL_MS, () =>
+      fetchAllowedOrigins(customerId)
+    );
+    const directive = frameAncestorsDirective(allowedOrigins);
+    if (directive) {
+      response.headers.set("Content-Security-Policy", directive);
+    }
+  } catch (err) {
+    // The page shows the lookup failure itself; don't block it here
+    console.error("Failed to look up allowed origins", err);
+  }
+  return response;
+};
+
+export async function middleware(req: NextRequest) {
+  if (req.nextUrl.pathname.startsWith("/api/")) {
+    return authenticateApiRequest(req);
+  }
+  return withFrameAncestors(req);
+}
+
+export const config = {
+  matcher: ["/", "/api/:path*"],
+};
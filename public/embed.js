@@ -0,0 +1,267 @@
+/**
+ * HoloAgent embed loader.
+ *
+ *   <script src="https://<your-holoagent-host>/embed.js" data-token="SESSION_TOKEN" async></script>
+ *
+ * Adds a launcher bubble to the page that opens the agent in an iframe.
+ * Options, as data attributes on the script tag:
+ *   data-token     the session token
+ *   data-token-url URL on the host site that returns a fresh token as JSON ({ "token": "..." });
+ *                  fetched each time the panel opens. One of data-token or data-token-url is required
+ *   data-position  "bottom-right" (default) or "bottom-left"
+ *   data-width     panel width in px (default 380)
+ *   data-height    panel height in px (default 640)
+ *   data-open      "true" to open the panel on page load
+ *   data-src       widget origin, defaults to the origin this script is served from
+ *
+ * `window.HoloAgent.open()`, `.close()` and `.toggle()` control the panel from the page.
+ * `.send(type, fields)` posts a command to the widget, queued until it is ready, and
+ * `.on(type, handler)` listens to its events ("*" for all); see the README for the protocol.
+ * `.setToken(token)` hands the widget a fresh session token. Closing the panel stops a running session.
+ */
+(function () {
+  "use strict";
+
+  var script = document.currentScript;
+  if (!script || window.HoloAgent) return;
+
+  var token = script.getAttribute("data-token");
+  var tokenUrl = script.getAttribute("data-token-url");
+  if (!token && !tokenUrl) {
+    console.error("[HoloAgent] embed.js needs a data-token or data-token-url attribute");
+    return;
+  }
+
+  var BUBBLE_SIZE = 60;
+  var EDGE_MARGIN = 20;
+  // Below this viewport width the panel takes the whole screen
+  var MOBILE_BREAKPOINT = 480;
+
+  var position = script.getAttribute("data-position") === "bottom-left" ? "left" : "right";
+  var width = parseInt(script.getAttribute("data-width"), 10) || 380;
+  var height = parseInt(script.getAttribute("data-height"), 10) || 640;
+  var startOpen = script.getAttribute("data-open") === "true";
+  var origin = script.getAttribute("data-src") || new URL(script.src).origin;
+
+  var widgetUrl = new URL("/", origin);
+  if (token) widgetUrl.searchParams.set("token", token);
+  widgetUrl.searchParams.set("embed", "1");
+
+  var MESSAGE_SOURCE = "holoagent";
+
+  var isOpen = false;
+  var iframe = null;
+  var isReady = false;
+  var pendingCommands = [];
+  var listeners = {};
+
+  var container = document.createElement("div");
+  container.setAttribute("data-holoagent", "");
+  container.style.cssText =
+    "position:fixed;bottom:" + EDGE_MARGIN + "px;" + position + ":" + EDGE_MARGIN + "px;z-index:2147483000;";
+
+  var panel = document.createElement("div");
+  panel.style.cssText =
+    "display:none;position:absolute;bottom:" + (BUBBLE_SIZE + 12) + "px;" + position + ":0;" +
+    "border-radius:16px;overflow:hidden;background:#000;box-shadow:0 12px 40px rgba(0,0,0,.35);";
+
+  var bubble = document.createElement("button");
+  bubble.type = "button";
+  bubble.setAttribute("aria-label", "Talk to our agent");
+  bubble.style.cssText =
+    "width:" + BUBBLE_SIZE + "px;height:" + BUBBLE_SIZE + "px;border:0;border-radius:50%;cursor:pointer;" +
+    "background:linear-gradient(45deg,#3b82f6,#8b5cf6,#ec4899);color:#fff;" +
+    "box-shadow:0 6px 20px rgba(0,0,0,.3);display:flex;align-items:center;justify-content:center;";
+
+  var CHAT_ICON =
+    '<svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" ' +
+    'stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>';
+  var CLOSE_ICON =
+    '<svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" ' +
+    'stroke-linecap="round"><path d="M18 6 6 18M6 6l12 12"/></svg>';
+
+  /**
+   * Fits the panel to the viewport: the configured size on desktop, the whole
+   * screen on phones.
+   */
+  function layoutPanel() {
+    var viewportWidth = window.innerWidth;
+    var viewportHeight = window.innerHeight;
+    if (viewportWidth <= MOBILE_BREAKPOINT) {
+      panel.style.position = "fixed";
+      panel.style.inset = "0";
+      panel.style.width = "100%";
+      panel.style.height = "100%";
+      panel.style.borderRadius = "0";
+      return;
+    }
+    panel.style.position = "absolute";
+    panel.style.inset = "";
+    panel.style.bottom = BUBBLE_SIZE + 12 + "px";
+    panel.style[position] = "0";
+    panel.style.width = Math.min(width, viewportWidth - 2 * EDGE_MARGIN) + "px";
+    panel.style.height = Math.min(height, viewportHeight - BUBBLE_SIZE - 2 * EDGE_MARGIN - 12) + "px";
+    panel.style.borderRadius = "16px";
+  }
+
+  // The iframe is created on first open, so pages that never open the agent don't load it
+  function ensureIframe() {
+    if (iframe) return;
+    iframe = document.createElement("iframe");
+    iframe.src = widgetUrl.toString();
+    iframe.title = "HoloAgent";
+    iframe.allow = "microphone; autoplay";
+    iframe.style.cssText = "width:100%;height:100%;border:0;display:block;";
+    // A reloaded widget has to announce itself again before it takes commands
+    iframe.addEventListener("load", function () {
+      isReady = false;
+    });
+    panel.appendChild(iframe);
+  }
+
+  /**
+   * Gives the widget a fresh session token. A running widget switches to it for its
+   * next requests; one that never got ready, e.g. because its token had expired, is
+   * reloaded with it.
+   */
+  function setToken(newToken) {
+    token = newToken;
+    widgetUrl.searchParams.set("token", token);
+    if (!iframe) return;
+    if (isReady) {
+      send("set_token", { token: token });
+    } else {
+      iframe.src = widgetUrl.toString();
+    }
+  }
+
+  function fetchToken() {
+    return fetch(tokenUrl, { credentials: "include" })
+      .then(function (res) {
+        if (!res.ok) throw new Error("token request failed with " + res.status);
+        return res.json();
+      })
+      .then(function (body) {
+        if (!body || typeof body.token !== "string") throw new Error("token response has no token");
+        return body.token;
+      });
+  }
+
+  function render() {
+    panel.style.display = isOpen ? "block" : "none";
+    bubble.innerHTML = isOpen ? CLOSE_ICON : CHAT_ICON;
+    bubble.setAttribute("aria-expanded", String(isOpen));
+    // On phones the panel covers the bubble, so the close button moves on top of it
+    bubble.style.position = isOpen && window.innerWidth <= MOBILE_BREAKPOINT ? "fixed" : "";
+    bubble.style.top = isOpen && window.innerWidth <= MOBILE_BREAKPOINT ? EDGE_MARGIN + "px" : "";
+    bubble.style[position] = isOpen && window.innerWidth <= MOBILE_BREAKPOINT ? EDGE_MARGIN + "px" : "";
+  }
+
+  function open() {
+    isOpen = true;
+    layoutPanel();
+    render();
+    if (!tokenUrl) {
+      ensureIframe();
+      return;
+    }
+    // The iframe is only created once there's a token, so it never loads with an expired one
+    var isFirstOpen = !iframe;
+    fetchToken()
+      .then(function (freshToken) {
+        if (isFirstOpen) {
+          token = freshToken;
+          widgetUrl.searchParams.set("token", token);
+        } else {
+          setToken(freshToken);
+        }
+      })
+      .catch(function (err) {
+        console.error("[HoloAgent] failed to fetch a session token", err);
+      })
+      .then(function () {
+        if (token) ensureIframe();
+      });
+  }
+
+  function close() {
+    isOpen = false;
+    render();
+    if (iframe) send("stop");
+  }
+
+  function toggle() {
+    if (isOpen) {
+      close();
+    } else {
+      open();
+    }
+  }
+
+  function postToWidget(command) {
+    iframe.contentWindow.postMessage(command, widgetUrl.origin);
+  }
+
+  function send(type, fields) {
+    var command = { source: MESSAGE_SOURCE, type: type };
+    for (var key in fields) {
+      if (Object.prototype.hasOwnProperty.call(fields, key)) command[key] = fields[key];
+    }
+    if (isReady) {
+      postToWidget(command);
+    } else {
+      pendingCommands.push(command);
+    }
+  }
+
+  function on(type, handler) {
+    (listeners[type] = listeners[type] || []).push(handler);
+  }
+
+  function emit(event) {
+    (listeners[event.type] || []).concat(listeners["*"] || []).forEach(function (handler) {
+      try {
+        handler(event);
+      } catch (err) {
+        console.error("[HoloAgent] event handler failed", err);
+      }
+    });
+  }
+
+  // Only the widget's own iframe, at the widget origin, is listened to
+  window.addEventListener("message", function (event) {
+    if (!iframe || event.source !== iframe.contentWindow || event.origin !== widgetUrl.origin) return;
+    var data = event.data;
+    if (!data || data.source !== MESSAGE_SOURCE) return;
+
+    if (data.type === "widget.ready") {
+      isReady = true;
+      pendingCommands.splice(0).forEach(postToWidget);
+    }
+    emit(data);
+  });
+
+  bubble.addEventListener("click", toggle);
+  window.addEventListener("resize", function () {
+    if (!isOpen) return;
+    layoutPanel();
+    render();
+  });
+
+  container.appendChild(panel);
+  container.appendChild(bubble);
+
+  function mount() {
+    document.body.appendChild(container);
+    render();
+    if (startOpen) open();
+  }
+
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener("DOMContentLoaded", mount);
+  }
+
+  window.HoloAgent = { open: open, close: close, toggle: toggle, send: send, on: on, setToken: setToken };
+})();
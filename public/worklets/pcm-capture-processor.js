@@ -0,0 +1,89 @@
+/**
+ * AudioWorklet processor that turns microphone input into fixed-size PCM16 frames
+ * at the target sample rate, off the main thread.
+ *
+ * processorOptions:
+ *   targetSampleRate - output rate in Hz (default 24000)
+ *   frameSize        - samples per posted frame at the target rate (default 960)
+ *   levelIntervalMs  - how often input levels are reported (default 50)
+ *
+ * Posts { type: "chunk", pcm: Int16Array } and { type: "level", rms, peak }.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.targetSampleRate = opts.targetSampleRate || 24000;
+    this.frameSize = opts.frameSize || 960;
+    this.ratio = sampleRate / this.targetSampleRate;
+
+    this.frame = new Int16Array(this.frameSize);
+    this.frameIndex = 0;
+
+    // Resampler state carried across render quanta
+    this.position = 0;
+    this.lastSample = 0;
+
+    this.levelInterval = Math.round(((opts.levelIntervalMs || 50) / 1000) * sampleRate);
+    this.levelCount = 0;
+    this.levelSumSquares = 0;
+    this.levelPeak = 0;
+  }
+
+  pushSample(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.frameIndex === this.frameSize) {
+      this.port.postMessage({ type: "chunk", pcm: this.frame }, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+    }
+  }
+
+  trackLevel(input) {
+    for (let i = 0; i < input.length; i++) {
+      const sample = input[i];
+      this.levelSumSquares += sample * sample;
+      this.levelPeak = Math.max(this.levelPeak, Math.abs(sample));
+    }
+    this.levelCount += input.length;
+    if (this.levelCount >= this.levelInterval) {
+      this.port.postMessage({
+        type: "level",
+        rms: Math.sqrt(this.levelSumSquares / this.levelCount),
+        peak: this.levelPeak,
+      });
+      this.levelCount = 0;
+      this.levelSumSquares = 0;
+      this.levelPeak = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    this.trackLevel(input);
+
+    if (this.ratio === 1) {
+      for (let i = 0; i < input.length; i++) this.pushSample(input[i]);
+      return true;
+    }
+
+    // Linear interpolation; `position` is relative to the start of this quantum,
+    // where index -1 is the last sample of the previous quantum.
+    while (this.position < input.length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.lastSample : input[index];
+      const b = input[index + 1];
+      this.pushSample(a + fraction * (b - a));
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.lastSample = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor("pcm-capture-processor", PcmCaptureProcessor);
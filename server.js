@@ -0,0 +1,382 @@
+require("dotenv").config();
+
+const crypto = require("crypto");
+const http = require("http");
+const axios = require("axios");
+const cors = require("cors");
+const express = require("express");
+const { WebSocket, WebSocketServer } = require("ws");
+
+const PORT = Number(process.env.RELAY_SERVER_PORT || 8081);
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "https://holoagent.ai/api";
+const OPENAI_REALTIME_URL = "wss://api.openai.com/v1/realtime";
+const DEFAULT_MODEL = "gpt-4o-mini-realtime-preview-2024-12-17";
+// Keep in step with DURATION_HEARTBEAT_INTERVAL_MS in app/services/updateDuration.ts
+const HEARTBEAT_INTERVAL_MS = 30000;
+const CONVERSATION_LIMIT_ERROR_CODE = "conversation_limit_reached";
+// Past max_session_tokens the browser has this long to say goodbye before the relay
+// closes the session. Keep in step with TOKEN_LIMIT_GRACE_MS in app/utils/sessionLimit.ts
+const TOKEN_LIMIT_GRACE_MS = 10000;
+const TOKEN_SECRET = process.env.HOLOAGENT_TOKEN_SECRET;
+// Tolerated clock difference between the backend that minted a token and this server
+const CLOCK_SKEW_SECONDS = 30;
+const TOKEN_SCOPES = ["voice", "text"];
+
+// Browser clients connect to ws://<host>:<port>/relay/<session token>?model=...
+const RELAY_PATH = /^\/relay\/([^/?]+)/;
+
+/**
+ * Live relay sessions, keyed by an incrementing id. Timestamps are kept here so
+ * usage is reported by the server even if the browser never calls update-duration.
+ */
+const sessions = new Map();
+let nextSessionId = 1;
+
+const log = (...args) => console.log(`[relay ${new Date().toISOString()}]`, ...args);
+
+/**
+ * Checks a session token's HS256 signature and expiry and returns its claims, or
+ * null. Keep in step with verifySessionToken in app/utils/sessionToken.ts.
+ */
+const verifySessionToken = (token) => {
+  const parts = token.split(".");
+  if (parts.length !== 3 || !TOKEN_SECRET) return null;
+  const [header, payload, signature] = parts;
+
+  const expected = crypto.createHmac("sha256", TOKEN_SECRET).update(`${header}.${payload}`).digest();
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString());
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    const isWellFormed =
+      alg === "HS256" &&
+      typeof claims.sub === "string" &&
+      typeof claims.face_id === "string" &&
+      typeof claims.jti === "string" &&
+      Number.isFinite(claims.exp) &&
+      Array.isArray(claims.scopes) &&
+      claims.scopes.length > 0 &&
+      claims.scopes.every((scope) => TOKEN_SCOPES.includes(scope));
+    if (!isWellFormed || claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) return null;
+    return claims;
+  } catch (err) {
+    return null;
+  }
+};
+
+/**
+ * Asks the HoloAgent backend whether a session token was revoked before it expired.
+ */
+const isTokenRevoked = async (jti) => {
+  const res = await axios.get(`${API_BASE_URL}/simli/token-status`, { params: { jti } });
+  return res.data.is_revoked === 1;
+};
+
+/**
+ * Whether a browser event feeds microphone audio to the model. Unreadable events
+ * count as audio, so a token without the voice scope can't slip one through.
+ */
+const isAudioInputEvent = (message) => {
+  if (!message.includes("input_audio_buffer.")) return false;
+  try {
+    return String(JSON.parse(message).type).startsWith("input_audio_buffer.");
+  } catch (err) {
+    return true;
+  }
+};
+
+/**
+ * Ends a live session whose token was revoked since it connected. Runs on every
+ * heartbeat, so revocation takes effect as fast as it does for API requests.
+ */
+const checkRevocation = async (session) => {
+  try {
+    if (await isTokenRevoked(session.tokenId)) {
+      log(`session ${session.id} token was revoked`);
+      endSession(session, 4401, "Invalid token");
+    }
+  } catch (err) {
+    log(`session ${session.id} failed to check its token:`, err.message);
+  }
+};
+
+/**
+ * Looks up the customer against the HoloAgent backend.
+ */
+const validateCustomer = async (customerId) => {
+  const res = await axios.get(`${API_BASE_URL}/simli/validate-customer`, {
+    params: { customer_id: customerId },
+  });
+  return res.data;
+};
+
+/**
+ * Adds the usage of a finished Realtime response to the session totals. Same
+ * shape as `SessionTokenUsage` in app/utils/tokenUsage.ts.
+ */
+const addResponseUsage = (session, usage) => {
+  const totals = session.tokenUsage;
+  const input = usage.input_token_details || {};
+  const output = usage.output_token_details || {};
+  totals.responses += 1;
+  totals.total_tokens += usage.total_tokens || 0;
+  totals.input_text_tokens += input.text_tokens || 0;
+  totals.input_audio_tokens += input.audio_tokens || 0;
+  totals.input_cached_tokens += input.cached_tokens || 0;
+  totals.output_text_tokens += output.text_tokens || 0;
+  totals.output_audio_tokens += output.audio_tokens || 0;
+};
+
+/**
+ * Ends the session once it has used up the customer's `max_session_tokens`. The
+ * browser wraps up on its own at the same cap; this is the backstop for one that doesn't.
+ */
+const checkTokenCap = (session) => {
+  if (!session.maxTokens || session.tokenUsage.total_tokens < session.maxTokens || session.tokenLimitTimer) return;
+  log(`session ${session.id} reached its cap of ${session.maxTokens} tokens`);
+  session.tokenLimitTimer = setTimeout(() => limitReached(session), TOKEN_LIMIT_GRACE_MS);
+};
+
+/**
+ * Reports the seconds since the session's last report to the HoloAgent backend:
+ * on every heartbeat, and a final time when the session ends.
+ */
+const reportDuration = async (session, isFinal) => {
+  if (session.reported) return;
+  if (isFinal) {
+    session.reported = true;
+    clearInterval(session.heartbeat);
+  }
+
+  const addedSeconds = Math.floor((Date.now() - session.reportedUntil) / 1000);
+  session.reportedUntil += addedSeconds * 1000;
+  try {
+    const res = await axios.post(`${API_BASE_URL}/simli/update-duration`, {
+      face_id: session.faceId,
+      customer_id: session.customerId,
+      added_seconds: addedSeconds,
+      session_id: session.reportId,
+      is_final: isFinal,
+      token_usage: session.tokenUsage,
+    });
+    log(`session ${session.id} reported ${addedSeconds}s${isFinal ? " (final)" : ""}`);
+
+    if (!isFinal && res.data.is_duration_valid === 0) {
+      limitReached(session);
+    }
+  } catch (err) {
+    log(`session ${session.id} failed to report duration:`, err.message);
+  }
+};
+
+/**
+ * Tells the browser why the session is about to end, then closes it.
+ */
+const limitReached = (session) => {
+  log(`session ${session.id} reached its conversation limit`);
+  if (session.client.readyState === WebSocket.OPEN) {
+    session.client.send(
+      JSON.stringify({
+        type: "error",
+        event_id: `relay_${session.id}_limit`,
+        error: {
+          type: "invalid_request_error",
+          code: CONVERSATION_LIMIT_ERROR_CODE,
+          message: "Conversation limit reached",
+        },
+      })
+    );
+  }
+  endSession(session, 4403, "Conversation limit reached");
+};
+
+/**
+ * Closes both sockets of a session and reports its usage exactly once.
+ */
+const endSession = (session, code = 1000, reason = "") => {
+  if (!sessions.has(session.id)) return;
+  sessions.delete(session.id);
+  clearTimeout(session.tokenLimitTimer);
+
+  for (const socket of [session.client, session.upstream]) {
+    if (!socket) continue;
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.close(code, reason);
+    } else if (socket.readyState === WebSocket.CONNECTING) {
+      // An upstream still connecting would otherwise open later as an orphaned session
+      socket.terminate();
+    }
+  }
+  return reportDuration(session, true);
+};
+
+/**
+ * Authenticates the session token, opens the upstream Realtime connection with the
+ * customer's key and forwards events both ways.
+ */
+const handleConnection = async (client, req) => {
+  const url = new URL(req.url, "http://localhost");
+  const match = url.pathname.match(RELAY_PATH);
+  if (!match) {
+    client.close(4404, "Unknown path");
+    return;
+  }
+  const claims = verifySessionToken(decodeURIComponent(match[1]));
+  if (!claims) {
+    client.close(4401, "Invalid token");
+    return;
+  }
+  const customerId = claims.sub;
+
+  // Hold browser events until the upstream socket is open
+  const pending = [];
+  const bufferClientMessage = (data) => pending.push(data);
+  client.on("message", bufferClientMessage);
+
+  let customer;
+  try {
+    if (await isTokenRevoked(claims.jti)) {
+      client.close(4401, "Invalid token");
+      return;
+    }
+    customer = await validateCustomer(customerId);
+  } catch (err) {
+    log("customer validation failed:", err.message);
+    client.close(4502, "Customer validation failed");
+    return;
+  }
+
+  if (
+    customer.status !== 1 ||
+    !customer.data ||
+    !customer.data.openai_api_key ||
+    customer.data.face_id !== claims.face_id
+  ) {
+    client.close(4401, "Invalid token");
+    return;
+  }
+  if (customer.is_duration_valid === 0) {
+    client.close(4403, "Conversation limit reached");
+    return;
+  }
+  if (client.readyState !== WebSocket.OPEN) return;
+
+  const model = customer.data.openai_model || url.searchParams.get("model") || DEFAULT_MODEL;
+  const upstream = new WebSocket(`${OPENAI_REALTIME_URL}?model=${encodeURIComponent(model)}`, {
+    headers: {
+      Authorization: `Bearer ${customer.data.openai_api_key}`,
+      "OpenAI-Beta": "realtime=v1",
+    },
+  });
+
+  const session = {
+    id: nextSessionId++,
+    // Sent with every report so the backend can tell sessions apart across relay restarts
+    reportId: crypto.randomUUID(),
+    customerId,
+    tokenId: claims.jti,
+    faceId: customer.data.face_id,
+    reportedUntil: Date.now(),
+    reported: false,
+    heartbeat: null,
+    maxTokens: customer.data.max_session_tokens,
+    tokenLimitTimer: null,
+    tokenUsage: {
+      responses: 0,
+      total_tokens: 0,
+      input_text_tokens: 0,
+      input_audio_tokens: 0,
+      input_cached_tokens: 0,
+      output_text_tokens: 0,
+      output_audio_tokens: 0,
+    },
+    client,
+    upstream,
+  };
+  session.heartbeat = setInterval(() => {
+    reportDuration(session, false);
+    checkRevocation(session);
+  }, HEARTBEAT_INTERVAL_MS);
+  sessions.set(session.id, session);
+  log(`session ${session.id} opened for face ${session.faceId} (${model})`);
+
+  // Text-only tokens get the conversation but not the microphone
+  const canUseVoice = claims.scopes.includes("voice");
+  const forwardClientMessage = (data) => {
+    const message = data.toString();
+    if (!canUseVoice && isAudioInputEvent(message)) return;
+    upstream.send(message);
+  };
+
+  upstream.on("open", () => {
+    // The session ended while connecting; don't start it on the customer's key
+    if (!sessions.has(session.id)) {
+      upstream.close();
+      return;
+    }
+    client.off("message", bufferClientMessage);
+    client.on("message", forwardClientMessage);
+    pending.splice(0).forEach(forwardClientMessage);
+  });
+
+  upstream.on("message", (data) => {
+    const message = data.toString();
+    // Only response.done carries usage, so skip parsing the audio deltas
+    if (message.includes('"response.done"')) {
+      try {
+        const event = JSON.parse(message);
+        if (event.type === "response.done" && event.response && event.response.usage) {
+          addResponseUsage(session, event.response.usage);
+          checkTokenCap(session);
+        }
+      } catch (err) {
+        log(`session ${session.id} sent an unreadable event:`, err.message);
+      }
+    }
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+
+  upstream.on("error", (err) => {
+    log(`session ${session.id} upstream error:`, err.message);
+    endSession(session, 4500, "Upstream error");
+  });
+  upstream.on("close", () => endSession(session));
+  client.on("close", () => endSession(session));
+  client.on("error", (err) => {
+    log(`session ${session.id} client error:`, err.message);
+    endSession(session);
+  });
+};
+
+const app = express();
+app.use(cors());
+
+app.get("/health", (_req, res) => {
+  res.json({ status: 1, sessions: sessions.size });
+});
+
+const server = http.createServer(app);
+const wss = new WebSocketServer({ server });
+wss.on("connection", (client, req) => {
+  handleConnection(client, req).catch((err) => {
+    log("relay connection failed:", err.message);
+    client.close(1011, "Relay error");
+  });
+});
+
+// Flush usage for live sessions before the process goes away
+const shutdown = async () => {
+  log(`shutting down, closing ${sessions.size} session(s)`);
+  await Promise.all([...sessions.values()].map((session) => endSession(session, 1001, "Server shutting down")));
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+server.listen(PORT, () => {
+  log(`listening on port ${PORT}`);
+});
@@ -22,12 +22,24 @@ const config: Config = {
       blue: colors.blue,
       red: '#ff0000',
       simliblue: '#0000ff',
-      simligray: '#111111'
+      simligray: '#111111',
+      // Customer branding, set as CSS variables by app/utils/theme.ts
+      brand: {
+        action: 'rgb(var(--brand-action) / <alpha-value>)',
+        stop: 'rgb(var(--brand-stop) / <alpha-value>)',
+        background: 'rgb(var(--brand-background) / <alpha-value>)',
+        text: 'rgb(var(--brand-text) / <alpha-value>)',
+      },
     },
     extend: {
       fontFamily: {
         'abc-repro-mono': ['var(--font-abc-repro-mono)'],
         'abc-repro': ['var(--font-abc-repro)'],
+        'brand': ['var(--font-brand)'],
+        'brand-mono': ['var(--font-brand-mono)'],
+      },
+      borderRadius: {
+        avatar: 'var(--brand-avatar-radius)',
       },
       backgroundImage: {
         "gradient-radial": "radial-gradient(var(--tw-gradient-stops))",